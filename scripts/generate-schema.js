@@ -0,0 +1,108 @@
+// scripts/generate-schema.js
+// Regenerates resources/palette.schema.json from the color registry in
+// src/engine/colorRegistry.ts. Run `npm run schema` after editing the
+// registry — it compiles first, then reads the compiled module.
+
+"use strict";
+
+const fs = require("fs");
+const path = require("path");
+const { WORKBENCH_COLORS } = require("../out/engine/colorRegistry");
+
+const OUT = path.join(__dirname, "..", "resources", "palette.schema.json");
+
+const color = { $ref: "#/definitions/color" };
+
+const colorProperties = {};
+for (const [id, description] of Object.entries(WORKBENCH_COLORS)) {
+  colorProperties[id] = { allOf: [color], description };
+}
+
+const schema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "Matugen Theme Bridge palette",
+  description: "VS Code color tokens written by matugen, or a personal / workspace overrides layer.",
+  type: "object",
+  allOf: [{ $ref: "#/definitions/palette" }],
+  properties: {
+    dark: { $ref: "#/definitions/palette", description: "Tokens used while a dark theme is active." },
+    light: { $ref: "#/definitions/palette", description: "Tokens used while a light theme is active." },
+    highContrast: { $ref: "#/definitions/palette", description: "Tokens used while a high contrast dark theme is active." },
+    highContrastLight: { $ref: "#/definitions/palette", description: "Tokens used while a high contrast light theme is active." },
+  },
+  definitions: {
+    color: {
+      anyOf: [
+        { type: "string", format: "color-hex" },
+        { type: "string", pattern: "^[A-Za-z]+$", description: "CSS named color, e.g. \"rebeccapurple\"." },
+        {
+          type: "string",
+          pattern: "[$(]",
+          description: "CSS color function (rgb, hsl, oklch, oklab) or expression: $token, $var, alpha(…), mix(…), lighten(…), darken(…).",
+        },
+      ],
+    },
+    palette: {
+      type: "object",
+      properties: {
+        _meta: {
+          type: "object",
+          description: "Metadata about the palette. Not applied as colors.",
+          properties: {
+            generated: { type: "string", description: "When the palette was generated." },
+            source: { type: "string", description: "What produced the palette, e.g. \"matugen\"." },
+            variant: {
+              type: "string",
+              description: "\"dark\" / \"light\", or any name mapped in matugenBridge.variantThemes.",
+            },
+          },
+        },
+        _vars: {
+          type: "object",
+          description: "Named colors, referenced from expressions as \"$name\".",
+          additionalProperties: color,
+        },
+        _tokenColors: {
+          type: "object",
+          description: "TextMate scope → foreground color, or { foreground, fontStyle }.",
+          additionalProperties: {
+            anyOf: [
+              color,
+              {
+                type: "object",
+                properties: {
+                  foreground: color,
+                  fontStyle: { type: "string", description: "Any of italic, bold, underline, strikethrough — or \"\" to reset." },
+                },
+              },
+            ],
+          },
+        },
+        _semanticTokenColors: {
+          type: "object",
+          description: "Semantic token selector → foreground color, or a style object.",
+          additionalProperties: {
+            anyOf: [
+              color,
+              {
+                type: "object",
+                properties: {
+                  foreground: color,
+                  fontStyle: { type: "string" },
+                  bold: { type: "boolean" },
+                  italic: { type: "boolean" },
+                  underline: { type: "boolean" },
+                  strikethrough: { type: "boolean" },
+                },
+              },
+            ],
+          },
+        },
+        ...colorProperties,
+      },
+    },
+  },
+};
+
+fs.writeFileSync(OUT, JSON.stringify(schema, null, 2) + "\n");
+console.log(`Wrote ${Object.keys(colorProperties).length} color(s) to ${path.relative(process.cwd(), OUT)}`);
@@ -0,0 +1,152 @@
+// src/api/bridgeApi.ts
+// The API returned from activate(), for other extensions that want to
+// match the live palette without parsing settings.json:
+//
+//   const bridge = vscode.extensions
+//     .getExtension<MatugenBridgeApi>("matugen-bridge.matugen-theme-bridge");
+//   const api = await bridge?.activate();
+//   if (api && api.version === 1) { … }
+//
+// `version` only changes on breaking changes; additions keep it. The
+// types below are the contract — copy them into the consuming extension.
+//
+// Everything is read back from user settings, so every window answers the
+// same. onDidApplyPalette fires in every window too: rather than hooking
+// this window's writes, it watches the color, token color and semantic
+// token settings for a new apply (the latest appliedAt of their markers),
+// so windows that don't lead still hear about it. One apply writes those
+// settings one after another; the event fires once they settle.
+// Transition frames don't fire it; the final write does.
+//
+// applyPalette() is a push like the URI and socket ones: the colors go
+// through the reader's validation, the token filters, the contrast audit
+// and the managed-key tracking, exactly like the palette file. Unlike a
+// link, it doesn't make this window lead: a window that doesn't lead
+// writes the push once, and the leader replaces it on its next palette
+// change.
+
+import * as vscode from "vscode";
+import { diffManaged, getManagedColors, getManagedStatus } from "../engine/colorApplier";
+import type { ColorMap, PaletteDiff, PaletteMeta, PalettePush, PushResult } from "../types";
+import { debounce } from "../utils/debounce";
+
+/** Bumped when a change would break existing consumers */
+export const API_VERSION = 1;
+
+/** Settings one apply writes — any of them may be the only one that changes */
+const WATCHED_SETTINGS = [
+  "workbench.colorCustomizations",
+  "editor.tokenColorCustomizations",
+  "editor.semanticTokenColorCustomizations",
+];
+
+/** Quiet time after a settings change before looking for a new apply */
+const SETTLE_MS = 250;
+
+export interface PaletteAppliedEvent {
+  /** Every color the bridge manages now */
+  colors: ColorMap;
+  /** What changed since the previous apply */
+  diff: PaletteDiff;
+  /** ISO-8601 time of the apply; null once the colors were cleared */
+  appliedAt: string | null;
+  /** "file", "snapshot", "uri", "socket", or the source an API caller gave */
+  source: string | undefined;
+}
+
+export interface BridgeMeta {
+  /** The _meta block of the applied palette (generated, source, variant, …) */
+  palette: PaletteMeta;
+  appliedAt: string | null;
+  source: string | undefined;
+  /** "[Theme Name]" blocks holding the colors — empty when applied globally */
+  scopes: string[];
+}
+
+export interface ApplyPaletteOptions {
+  /** Who is applying — e.g. your extension id. Logged and reported as the source. */
+  source?: string;
+}
+
+export interface MatugenBridgeApi {
+  readonly version: number;
+  /** The colors currently applied, token → #rrggbb[aa] */
+  getCurrentPalette(): ColorMap;
+  getMeta(): BridgeMeta;
+  readonly onDidApplyPalette: vscode.Event<PaletteAppliedEvent>;
+  /**
+   * Applies `colors` in place of the palette file, until the file changes.
+   * Resolves with the same result a socket push gets — never rejects.
+   */
+  applyPalette(colors: ColorMap, options?: ApplyPaletteOptions): Promise<PushResult>;
+}
+
+export class BridgeApi implements MatugenBridgeApi, vscode.Disposable {
+  readonly version = API_VERSION;
+  private readonly emitter = new vscode.EventEmitter<PaletteAppliedEvent>();
+  readonly onDidApplyPalette = this.emitter.event;
+  private readonly disposables: vscode.Disposable[] = [this.emitter];
+  private lastAppliedAt: string | null;
+  private lastColors: ColorMap;
+  private readonly scheduleCheck = debounce(() => this.check(), SETTLE_MS);
+
+  /**
+   * @param push         Applies a push — the same handler the socket uses
+   * @param paletteMeta  _meta of the palette last applied
+   */
+  constructor(
+    private readonly push: (push: PalettePush) => Promise<PushResult>,
+    private readonly paletteMeta: () => PaletteMeta
+  ) {
+    this.lastAppliedAt = getManagedStatus().appliedAt;
+    this.lastColors = getManagedColors();
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (WATCHED_SETTINGS.some((s) => e.affectsConfiguration(s))) this.scheduleCheck();
+      })
+    );
+  }
+
+  getCurrentPalette(): ColorMap {
+    return getManagedColors();
+  }
+
+  getMeta(): BridgeMeta {
+    const status = getManagedStatus();
+    return {
+      palette: this.paletteMeta(),
+      appliedAt: status.appliedAt,
+      source: status.source,
+      scopes: status.scopes,
+    };
+  }
+
+  async applyPalette(colors: ColorMap, options: ApplyPaletteOptions = {}): Promise<PushResult> {
+    if (typeof colors !== "object" || colors === null || Array.isArray(colors)) {
+      return { ok: false, error: "applyPalette() expects an object of color token → color." };
+    }
+    return this.push({
+      path: "api.json",
+      content: JSON.stringify(colors),
+      format: "vscode",
+      via: "api",
+      source: options.source?.trim() || undefined,
+    });
+  }
+
+  /** Fires onDidApplyPalette when the marker shows a new apply */
+  private check(): void {
+    const status = getManagedStatus();
+    if (status.appliedAt === this.lastAppliedAt) return;
+
+    const colors = getManagedColors();
+    const diff = diffManaged(this.lastColors, colors);
+    this.lastAppliedAt = status.appliedAt;
+    this.lastColors = colors;
+    this.emitter.fire({ colors, diff, appliedAt: status.appliedAt, source: status.source });
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+  }
+}
@@ -0,0 +1,221 @@
+// src/coordination/windowLease.ts
+// Elects one leading window among all open editor windows.
+//
+// Every window runs the extension. Left alone, each one reads the palette
+// and rewrites the same user settings at the same moment: repeated writes,
+// settings.json churn, and lost updates when two read-modify-write cycles
+// interleave. User settings are shared, so one writer is enough — the
+// leader applies user-level palettes, the followers just see the change.
+//
+// The lease is a small JSON file in global storage, which all windows
+// share: { id, pid, host, renewedAt }
+//  - the leader rewrites it every HEARTBEAT_MS
+//  - a lease not renewed for LEASE_TTL_MS, or whose process is gone, is free
+//  - a free lease is claimed by writing our id and reading it back after a
+//    short settle; when several windows claim at once the last write wins
+//    and the others stay followers
+//  - a leader that finds another id in the file steps down — that is also
+//    how takeOver() hands the lead to the window the user is working in
+//  - a closing leader deletes the file, so a follower takes over within
+//    one heartbeat
+//
+// Writes go to a temp file renamed over the lease, so a reader never sees
+// half a record. If the lease cannot be written at all, the window leads
+// on its own — uncoordinated, as if coordination were off.
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { logger } from "../utils/logger";
+
+export type WindowRole = "leader" | "follower";
+
+/** Contents of the lease file */
+export interface LeaseRecord {
+  id: string;
+  pid: number;
+  host: string;
+  /** Epoch ms of the last renewal */
+  renewedAt: number;
+}
+
+const LEASE_FILE = "window-lease.json";
+
+/** How often the leader renews and followers look for a free lease */
+export const HEARTBEAT_MS = 2000;
+
+/** A lease not renewed for this long is free */
+const LEASE_TTL_MS = HEARTBEAT_MS * 3;
+
+/** Pause between writing a claim and checking it held */
+const SETTLE_MS = 150;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM: alive, just not ours to signal
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function isFree(record: LeaseRecord): boolean {
+  if (Date.now() - record.renewedAt > LEASE_TTL_MS) return true;
+  return record.host === os.hostname() && !isProcessAlive(record.pid);
+}
+
+export class WindowLease implements vscode.Disposable {
+  private readonly id = crypto.randomBytes(8).toString("hex");
+  private readonly file: string;
+  private role: WindowRole = "follower";
+  private timer: ReturnType<typeof setInterval> | undefined;
+  /** False once stopped — a claim still settling is dropped */
+  private active = false;
+  /** A claim is settling — heartbeats skip meanwhile */
+  private claiming = false;
+  /** The lease could not be written — leading alone until restarted */
+  private standalone = false;
+
+  /**
+   * @param onDidChangeRole  Called whenever this window starts or stops
+   *                         leading — but not for the role start() settles on.
+   */
+  constructor(storageDir: string, private readonly onDidChangeRole: (role: WindowRole) => void) {
+    this.file = path.join(storageDir, LEASE_FILE);
+  }
+
+  get isLeader(): boolean {
+    return this.role === "leader";
+  }
+
+  /** The window holding the lease, if it is held */
+  get holder(): LeaseRecord | undefined {
+    const record = this.read();
+    return record && !isFree(record) ? record : undefined;
+  }
+
+  /**
+   * Joins the election. Resolves once this window knows its first role.
+   * Never throws.
+   */
+  async start(): Promise<void> {
+    this.stop();
+    this.active = true;
+    this.standalone = false;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    } catch {
+      // write() reports it
+    }
+
+    await this.tick(false);
+    if (!this.active) return;
+    this.timer = setInterval(() => void this.tick(true), HEARTBEAT_MS);
+
+    if (this.isLeader) {
+      logger.info("This window applies palettes for all windows.");
+    } else {
+      const holder = this.holder;
+      logger.info(`Another window${holder ? ` (pid ${holder.pid})` : ""} applies palettes — this window follows.`);
+    }
+  }
+
+  /**
+   * Takes the lead right away; the previous leader steps down at its next
+   * heartbeat. Not reported to onDidChangeRole — the caller is already
+   * acting on it. Returns whether the role changed.
+   */
+  takeOver(): boolean {
+    if (!this.active || this.isLeader) return false;
+    this.write();
+    logger.info("This window takes over applying palettes.");
+    this.setRole("leader", false);
+    return true;
+  }
+
+  private async tick(report: boolean): Promise<void> {
+    if (this.claiming || this.standalone) return;
+    const current = this.read();
+
+    // Renew — also when the file went missing under us
+    if (current?.id === this.id || (this.isLeader && (!current || isFree(current)))) {
+      if (!this.write()) this.standalone = true;
+      this.setRole("leader", report);
+      return;
+    }
+    if (this.isLeader) {
+      logger.info(`Window pid ${current?.pid} took over applying palettes — this window follows.`);
+      this.setRole("follower", report);
+    }
+    if (current && !isFree(current)) return;
+
+    // ── claim ───────────────────────────────────────────────────────
+    if (!this.write()) {
+      this.standalone = true;
+      this.setRole("leader", report);
+      return;
+    }
+    this.claiming = true;
+    await new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+    this.claiming = false;
+    if (!this.active) return;
+    if (this.read()?.id === this.id) this.setRole("leader", report);
+  }
+
+  private setRole(role: WindowRole, report: boolean): void {
+    if (role === this.role) return;
+    this.role = role;
+    if (report) this.onDidChangeRole(role);
+  }
+
+  private read(): LeaseRecord | undefined {
+    try {
+      const record = JSON.parse(fs.readFileSync(this.file, "utf8")) as Partial<LeaseRecord>;
+      if (typeof record.id !== "string" || typeof record.pid !== "number" ||
+          typeof record.host !== "string" || typeof record.renewedAt !== "number") {
+        return undefined;
+      }
+      return record as LeaseRecord;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Writes our record over the lease. False if it could not be written. */
+  private write(): boolean {
+    const record: LeaseRecord = { id: this.id, pid: process.pid, host: os.hostname(), renewedAt: Date.now() };
+    const tmp = `${this.file}.${this.id}.tmp`;
+    try {
+      fs.writeFileSync(tmp, JSON.stringify(record), "utf8");
+      fs.renameSync(tmp, this.file);
+      return true;
+    } catch (e) {
+      logger.error(`Cannot write window lease ${this.file}: ${(e as Error).message} — windows are not coordinated.`);
+      return false;
+    }
+  }
+
+  /** Leaves the election; a held lease is released for the other windows */
+  stop(): void {
+    this.active = false;
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.read()?.id === this.id) {
+      try {
+        fs.unlinkSync(this.file);
+      } catch {
+        // Expires on its own
+      }
+    }
+    this.role = "follower";
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+}
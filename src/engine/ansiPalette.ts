@@ -0,0 +1,126 @@
+// src/engine/ansiPalette.ts
+// Generates the integrated terminal's 16 ANSI colors from the palette.
+//
+// Each chromatic slot starts from its conventional OKLCH hue (red stays
+// red-ish, green green-ish) and is rotated part of the way toward the
+// palette's primary color — at most MAX_HUE_SHIFT degrees, the same idea
+// as Material's "harmonize" — so the terminal sits with the wallpaper
+// instead of fighting it. Black and white are neutrals tinted with the
+// primary hue. Lightness is picked for the terminal background and then
+// pushed (via the contrast module) until each color is readable on it.
+//
+// Tokens the palette sets explicitly always win: only missing
+// terminal.ansi* entries are generated.
+
+import type { ColorMap } from "../types";
+import { contrastRatio, oklchToRgb, parseHex, rgbToOklch, toHex } from "../utils/color";
+import type { RGBA } from "../utils/color";
+import { fixForeground } from "./contrast";
+import { logger } from "../utils/logger";
+
+/** Conventional OKLCH hues of the six chromatic ANSI slots */
+const ANSI_HUES: ReadonlyArray<readonly [string, number]> = [
+  ["Red", 29],
+  ["Green", 142],
+  ["Yellow", 100],
+  ["Blue", 264],
+  ["Magenta", 328],
+  ["Cyan", 195],
+];
+
+/** Furthest a slot's hue is rotated toward the primary color, in degrees */
+const MAX_HUE_SHIFT = 15;
+
+/** Chroma of the tinted black / white neutrals */
+const NEUTRAL_CHROMA = 0.015;
+
+/** Minimum contrast against terminal.background for text-like slots */
+const MIN_RATIO = 4.5;
+/** Dim slots (bright black is used for comments / hints) may go lower */
+const MIN_RATIO_DIM = 3;
+
+/** Tokens consulted, in order, for each input — the first present wins */
+const PRIMARY_TOKENS = ["button.background", "editorCursor.foreground", "textLink.foreground"];
+const BACKGROUND_TOKENS = ["terminal.background", "panel.background", "editor.background"];
+
+function firstColor(colors: ColorMap, tokens: string[]): RGBA | undefined {
+  for (const token of tokens) {
+    const c = colors[token] !== undefined ? parseHex(colors[token]) : undefined;
+    if (c && c.a >= 1) return c;
+  }
+  return undefined;
+}
+
+/** Rotates `hue` toward `source` by half their distance, capped at MAX_HUE_SHIFT */
+function harmonize(hue: number, source: number): number {
+  const diff = ((source - hue + 540) % 360) - 180;
+  const shift = Math.sign(diff) * Math.min(Math.abs(diff) * 0.5, MAX_HUE_SHIFT);
+  return (hue + shift + 360) % 360;
+}
+
+/**
+ * Returns the terminal.ansi* tokens missing from `colors`, derived from its
+ * primary and background colors. Empty when there is no usable background.
+ * Never throws.
+ */
+export function generateAnsiColors(colors: ColorMap): ColorMap {
+  const bg = firstColor(colors, BACKGROUND_TOKENS);
+  if (!bg) {
+    logger.debug("ANSI generator: no opaque terminal / editor background — skipping.");
+    return {};
+  }
+
+  const primary = firstColor(colors, PRIMARY_TOKENS);
+  const bgL = rgbToOklch(bg).L;
+  const dark = bgL < 0.5;
+  // An achromatic primary has no meaningful hue — leave the slots unrotated
+  const source = primary && rgbToOklch(primary).C > 0.02 ? rgbToOklch(primary).h : undefined;
+  const tintHue = source ?? 0;
+  const tint = source === undefined ? 0 : NEUTRAL_CHROMA;
+
+  const readable = (c: RGBA, minRatio: number): string =>
+    toHex(contrastRatio(c, bg) >= minRatio ? c : fixForeground(c, bg, minRatio + 0.01));
+
+  const out: ColorMap = {};
+
+  // ── chromatic slots ───────────────────────────────────────────────
+  // Normal and bright sit at different lightness; bright is the one
+  // further from the background.
+  const normal = dark ? { L: 0.72, C: 0.13 } : { L: 0.5, C: 0.15 };
+  const bright = dark ? { L: 0.82, C: 0.12 } : { L: 0.42, C: 0.17 };
+
+  for (const [name, baseHue] of ANSI_HUES) {
+    const h = source === undefined ? baseHue : harmonize(baseHue, source);
+    out[`terminal.ansi${name}`] = readable(oklchToRgb({ ...normal, h }), MIN_RATIO);
+    out[`terminal.ansiBright${name}`] = readable(oklchToRgb({ ...bright, h }), MIN_RATIO);
+  }
+
+  // ── neutrals ──────────────────────────────────────────────────────
+  // The slot on the background's side of the scale stays close to it
+  // (black on dark, white on light) and isn't held to a contrast minimum.
+  const neutral = (L: number): RGBA => oklchToRgb({ L, C: tint, h: tintHue });
+  if (dark) {
+    out["terminal.ansiBlack"] = toHex(neutral(Math.min(1, bgL + 0.1)));
+    out["terminal.ansiBrightBlack"] = readable(neutral(0.55), MIN_RATIO_DIM);
+    out["terminal.ansiWhite"] = readable(neutral(0.85), MIN_RATIO);
+    out["terminal.ansiBrightWhite"] = readable(neutral(0.97), MIN_RATIO);
+  } else {
+    out["terminal.ansiBlack"] = readable(neutral(0.25), MIN_RATIO);
+    out["terminal.ansiBrightBlack"] = readable(neutral(0.5), MIN_RATIO_DIM);
+    out["terminal.ansiWhite"] = toHex(neutral(Math.max(0, bgL - 0.12)));
+    out["terminal.ansiBrightWhite"] = toHex(neutral(Math.max(0, bgL - 0.04)));
+  }
+
+  // ── explicit tokens win ───────────────────────────────────────────
+  for (const token of Object.keys(out)) {
+    if (colors[token] !== undefined) delete out[token];
+  }
+
+  if (Object.keys(out).length > 0) {
+    logger.debug(
+      `ANSI generator: ${Object.keys(out).length} terminal color(s) generated` +
+      (source !== undefined ? `, harmonized toward hue ${source.toFixed(0)}°.` : ".")
+    );
+  }
+  return out;
+}
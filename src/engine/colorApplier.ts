@@ -5,21 +5,448 @@
 //  3. Merges fresh palette colors on top of remaining user colors
 //  4. Writes the result back — no reload, no restart
 //
+// The same bookkeeping is applied to editor.tokenColorCustomizations
+// (our TextMate rules are identified by their scope selector) and to
+// editor.semanticTokenColorCustomizations (keyed by semantic selector),
+// so user-defined rules are never removed.
+//
 // The managed-key tracking is what makes this safe:
 //  - We never touch keys the user set themselves
 //  - If the user adds a color that overlaps ours, their next manual change
 //    will persist because we only overwrite keys from the palette
+//  - For colors, the meta also records the value written for each key, so
+//    a managed key edited or deleted by hand since is reported as drift
+//    (findColorDrift) instead of silently overwritten; the caller decides
+//    whether to release it (releaseColors) or write over it. TextMate and
+//    semantic rules are not tracked this way — ours are rewritten as is
+//
+// Write scope (matugenBridge.writeScope):
+//  - "global": our keys live at the top level of each setting and paint
+//    over every theme
+//  - "theme":  our keys live inside "[Matugen Dark]" / "[Matugen Light]"
+//    (or the configured theme names) blocks, so other themes stay clean.
+//    ManagedMeta.scopes records which block holds which keys.
+// Every write strips our keys from BOTH layouts first, so switching modes
+// never leaves orphans behind.
+//
+// Settings level: palette layers normally go to user settings; the
+// per-workspace layer goes to workspace settings. Each level keeps its own
+// meta and is read with inspect(), never through the merged view — which
+// would copy workspace values into user settings (and vice versa).
 
 import * as vscode from "vscode";
-import type { ColorMap, ManagedMeta } from "../types";
+import type {
+  ColorDrift,
+  ColorMap,
+  ManagedMeta,
+  PaletteDiff,
+  ParsedPalette,
+  SemanticTokenColorMap,
+  SemanticTokenStyle,
+  TextMateRule,
+  TokenColorMap,
+  TokenStyle,
+} from "../types";
 import { MANAGED_KEY } from "../types";
+import { CONTRIBUTED_THEMES } from "./themeSwitcher";
+import { contentHash, stableStringify } from "../utils/hash";
 import { logger } from "../utils/logger";
 
-/** The VS Code settings key we write to */
+/** The VS Code settings keys we write to */
 const COLOR_CUSTOMIZATIONS = "workbench.colorCustomizations";
+const TOKEN_COLOR_CUSTOMIZATIONS = "editor.tokenColorCustomizations";
+const SEMANTIC_TOKEN_COLOR_CUSTOMIZATIONS = "editor.semanticTokenColorCustomizations";
+
+/** Default config target — Global (user settings.json) */
+const GLOBAL = vscode.ConfigurationTarget.Global;
+const WORKSPACE = vscode.ConfigurationTarget.Workspace;
+
+type Block = Record<string, unknown>;
+
+function isPlainObject(v: unknown): v is Block {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** The value of `setting` stored at exactly `target` — not the merged view */
+function readSetting(setting: string, target: vscode.ConfigurationTarget): Block {
+  const inspected = vscode.workspace.getConfiguration().inspect<Block>(setting);
+  const value = target === WORKSPACE ? inspected?.workspaceValue : inspected?.globalValue;
+  return isPlainObject(value) ? value : {};
+}
+
+/**
+ * Writes `block` at `target`, removing the setting entirely when nothing is
+ * left — so clearing never leaves an empty object in .vscode/settings.json.
+ */
+async function writeSetting(setting: string, block: Block, target: vscode.ConfigurationTarget): Promise<void> {
+  const value = Object.keys(block).length > 0 ? block : undefined;
+  await vscode.workspace.getConfiguration().update(setting, value, target);
+}
+
+/** Settings levels we may have written to — workspace only when one is open */
+function writableTargets(): vscode.ConfigurationTarget[] {
+  return vscode.workspace.workspaceFolders?.length ? [GLOBAL, WORKSPACE] : [GLOBAL];
+}
 
-/** VS Code config target — Global (user settings.json) */
-const TARGET = vscode.ConfigurationTarget.Global;
+// ─────────────────────────────────────────────────────────────────────────────
+// Per-setting operations
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How our entries are stored inside one block (the top level of a setting,
+ * or one of its "[Theme Name]" blocks).
+ */
+interface SectionOps<V> {
+  /** Settings key, e.g. "workbench.colorCustomizations" */
+  setting: string;
+  /** Human-readable name for log lines */
+  label: string;
+  /** Removes the entries identified by `keys`; returns a new block */
+  strip(block: Block, keys: string[]): Block;
+  /** Adds `items`; returns the new block and the keys we now own */
+  insert(block: Block, items: Record<string, V>): { block: Block; owned: string[] };
+  /** Reads back the entries identified by `keys` */
+  collect(block: Block, keys: string[]): Record<string, V>;
+  /** Record the written values in the meta, for drift detection */
+  recordValues?: boolean;
+}
+
+const colorOps: SectionOps<string> = {
+  setting: COLOR_CUSTOMIZATIONS,
+  label: "color override(s)",
+  recordValues: true,
+
+  strip(block, keys) {
+    const next: Block = { ...block };
+    for (const key of keys) {
+      delete next[key];
+    }
+    return next;
+  },
+
+  insert(block, colors) {
+    const next: Block = { ...block };
+    for (const [token, hex] of Object.entries(colors)) {
+      next[token] = hex;
+    }
+    return { block: next, owned: Object.keys(colors) };
+  },
+
+  collect(block, keys) {
+    const out: ColorMap = {};
+    for (const key of keys) {
+      if (typeof block[key] === "string") out[key] = block[key] as string;
+    }
+    return out;
+  },
+};
+
+/** Canonical key for a rule's scope — this is what ManagedMeta.keys stores */
+function scopeKey(scope: TextMateRule["scope"]): string {
+  return Array.isArray(scope) ? scope.join(", ") : scope ?? "";
+}
+
+function textMateRules(block: Block): TextMateRule[] {
+  return Array.isArray(block.textMateRules) ? (block.textMateRules as TextMateRule[]) : [];
+}
+
+/**
+ * `name` of every TextMate rule we write. A user's rule for the same scope
+ * has another name (or none), so strip() and collect() never mistake it
+ * for ours.
+ */
+const MANAGED_RULE_NAME = "matugen-bridge";
+
+/**
+ * The rules of `block` that are ours, for the scopes in `keys`. Rules
+ * written before the name mark existed are unnamed: for a scope with no
+ * marked rule, the first unnamed one is ours — insert() always put ours
+ * ahead of the user's.
+ */
+function ownedRules(block: Block, keys: string[]): Set<TextMateRule> {
+  const rules = textMateRules(block);
+  const owned = new Set<TextMateRule>();
+  const marked = new Set<string>();
+  for (const rule of rules) {
+    const key = scopeKey(rule.scope);
+    if (rule.name === MANAGED_RULE_NAME && keys.includes(key)) {
+      owned.add(rule);
+      marked.add(key);
+    }
+  }
+  for (const key of keys) {
+    if (marked.has(key)) continue;
+    const legacy = rules.find((r) => r.name === undefined && scopeKey(r.scope) === key);
+    if (legacy) owned.add(legacy);
+  }
+  return owned;
+}
+
+const tokenColorOps: SectionOps<TokenStyle> = {
+  setting: TOKEN_COLOR_CUSTOMIZATIONS,
+  label: "token color rule(s)",
+
+  strip(block, keys) {
+    const owned = ownedRules(block, keys);
+    const next: Block = { ...block };
+    const rules = textMateRules(block).filter((r) => !owned.has(r));
+    if (rules.length > 0) next.textMateRules = rules;
+    else delete next.textMateRules;
+    return next;
+  },
+
+  // Our rules go BEFORE the user's own rules so that, for the same
+  // selector, the user's rule still wins.
+  insert(block, tokenColors) {
+    const ours: TextMateRule[] = Object.entries(tokenColors).map(([scope, settings]) => ({
+      name: MANAGED_RULE_NAME,
+      scope,
+      settings: { ...settings },
+    }));
+    return {
+      block: { ...block, textMateRules: [...ours, ...textMateRules(block)] },
+      owned: Object.keys(tokenColors),
+    };
+  },
+
+  collect(block, keys) {
+    const out: TokenColorMap = {};
+    for (const rule of ownedRules(block, keys)) {
+      const key = scopeKey(rule.scope);
+      if (!(key in out)) out[key] = { ...rule.settings };
+    }
+    return out;
+  },
+};
+
+function semanticRules(block: Block): Block {
+  return isPlainObject(block.rules) ? block.rules : {};
+}
+
+const semanticTokenColorOps: SectionOps<SemanticTokenStyle> = {
+  setting: SEMANTIC_TOKEN_COLOR_CUSTOMIZATIONS,
+  label: "semantic token rule(s)",
+
+  strip(block, keys) {
+    const rules = { ...semanticRules(block) };
+    for (const selector of keys) {
+      delete rules[selector];
+    }
+    const next: Block = { ...block, rules };
+    if (Object.keys(rules).length === 0) delete next.rules;
+    return next;
+  },
+
+  // Whatever is left in `rules` after stripping belongs to the user — a
+  // selector the user has defined themselves is left alone, not taken over.
+  insert(block, semanticColors) {
+    const rules = { ...semanticRules(block) };
+    const owned: string[] = [];
+    for (const [selector, style] of Object.entries(semanticColors)) {
+      if (selector in rules) {
+        logger.debug(`Semantic selector "${selector}" is user-defined — not overriding.`);
+        continue;
+      }
+      rules[selector] = { ...style };
+      owned.push(selector);
+    }
+    const next: Block = { ...block };
+    if (Object.keys(rules).length > 0) next.rules = rules;
+    return { block: next, owned };
+  },
+
+  collect(block, keys) {
+    const rules = semanticRules(block);
+    const out: SemanticTokenColorMap = {};
+    for (const selector of keys) {
+      const style = rules[selector];
+      if (typeof style === "string") out[selector] = { foreground: style };
+      else if (isPlainObject(style)) out[selector] = { ...(style as SemanticTokenStyle) };
+    }
+    return out;
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Layout helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Blocks we write into: `null` for the top level ("global" mode), or the
+ * list of "[Theme Name]" block keys ("theme" mode).
+ */
+function getWriteScopes(): string[] | null {
+  const config = vscode.workspace.getConfiguration("matugenBridge");
+  if (config.get<"global" | "theme">("writeScope", "global") !== "theme") {
+    return null;
+  }
+  const themes = config.get<string[]>("scopedThemes", Object.values(CONTRIBUTED_THEMES));
+  return themes.filter((t) => t.trim() !== "").map((t) => `[${t}]`);
+}
+
+/** Number of distinct keys we own across the top level and all scopes */
+function managedKeyCount(meta: ManagedMeta | undefined): number {
+  if (!meta) return 0;
+  const all = new Set(meta.keys);
+  for (const keys of Object.values(meta.scopes ?? {})) {
+    keys.forEach((k) => all.add(k));
+  }
+  return all.size;
+}
+
+/**
+ * Returns `current` with every entry we own removed — at the top level and
+ * inside every scope block listed in our meta — and the meta entry itself
+ * dropped. Scope blocks left empty are removed.
+ */
+function stripAllManaged<V>(ops: SectionOps<V>, current: Block): Block {
+  const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
+
+  let next = ops.strip({ ...current }, meta?.keys ?? []);
+  for (const [scope, keys] of Object.entries(meta?.scopes ?? {})) {
+    const block = next[scope];
+    if (!isPlainObject(block)) continue;
+    const stripped = ops.strip(block, keys);
+    if (Object.keys(stripped).length > 0) next[scope] = stripped;
+    else delete next[scope];
+  }
+
+  next = { ...next };
+  delete next[MANAGED_KEY];
+  return next;
+}
+
+/**
+ * Reads back what we currently own. In scoped layout the first scope that
+ * holds anything is used — every scope receives the same values.
+ */
+function collectManaged<V>(ops: SectionOps<V>, current: Block): Record<string, V> {
+  const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
+  if (!meta) return {};
+
+  const out = ops.collect(current, meta.keys);
+  for (const [scope, keys] of Object.entries(meta.scopes ?? {})) {
+    const block = current[scope];
+    if (isPlainObject(block) && keys.length > 0) {
+      return { ...ops.collect(block, keys), ...out };
+    }
+  }
+  return out;
+}
+
+/** Keys added, changed and removed going from `previous` to `items` */
+export function diffManaged<V>(previous: Record<string, V>, items: Record<string, V>): PaletteDiff {
+  const added: string[] = [];
+  const changed: string[] = [];
+  for (const [key, value] of Object.entries(items)) {
+    if (!(key in previous)) added.push(key);
+    else if (stableStringify(previous[key]) !== stableStringify(value)) changed.push(key);
+  }
+  const removed = Object.keys(previous).filter((key) => !(key in items));
+  return { added, changed, removed };
+}
+
+/** Extra bookkeeping for writeManaged() */
+interface WriteOptions {
+  /** Recorded as ManagedMeta.source; without it the previous one is kept */
+  source?: string;
+  /**
+   * Values to record as ours (recordValues sections), instead of `items` —
+   * for re-writes of what is already there, which may include hand edits
+   */
+  values?: Record<string, string>;
+}
+
+/**
+ * Core write path shared by every setting: strip everything we owned,
+ * insert `items` into the configured layout, record fresh meta, write.
+ * Skips the write entirely when it would change nothing.
+ */
+async function writeManaged<V>(
+  ops: SectionOps<V>,
+  items: Record<string, V>,
+  target: vscode.ConfigurationTarget,
+  options: WriteOptions = {}
+): Promise<void> {
+  // ── read current state ────────────────────────────────────────────
+  const current = readSetting(ops.setting, target);
+  const hadMeta = current[MANAGED_KEY] !== undefined;
+
+  // Nothing to add and nothing of ours to remove — leave the setting alone
+  if (Object.keys(items).length === 0 && !hadMeta) {
+    return;
+  }
+
+  // ── skip no-op writes ─────────────────────────────────────────────
+  // Same entries in the same layout as last time, and none of our values
+  // touched or deleted since: rewriting would only churn settings.json,
+  // settings sync and every onDidChangeConfiguration listener. (Keys we
+  // never owned may be absent — insert() may have declined them.)
+  const scopes = getWriteScopes();
+  const hash = contentHash({ scopes, items });
+  const diff = diffManaged(collectManaged(ops, current), items);
+  const level = target === WORKSPACE ? " (workspace)" : "";
+  const previousMeta = current[MANAGED_KEY] as ManagedMeta | undefined;
+  const ownedBefore = new Set([...(previousMeta?.keys ?? []), ...Object.values(previousMeta?.scopes ?? {}).flat()]);
+  const deletedByHand = diff.added.filter((key) => ownedBefore.has(key));
+  if (previousMeta?.hash === hash && (!ops.recordValues || previousMeta.values !== undefined) &&
+      diff.changed.length === 0 && diff.removed.length === 0 && deletedByHand.length === 0) {
+    logger.debug(`No change to ${ops.label}${level} — skipping write.`);
+    return;
+  }
+
+  // ── remove our previous entries (both layouts) ───────────────────
+  let next = stripAllManaged(ops, current);
+
+  // ── insert the new entries ────────────────────────────────────────
+  const newMeta: ManagedMeta = { keys: [], appliedAt: new Date().toISOString(), hash };
+  const recordedSource = options.source ?? previousMeta?.source;
+  if (recordedSource !== undefined) newMeta.source = recordedSource;
+
+  if (scopes === null) {
+    const { block, owned } = ops.insert(next, items);
+    next = block;
+    newMeta.keys = owned;
+  } else {
+    newMeta.scopes = {};
+    for (const scope of scopes) {
+      const existing = isPlainObject(next[scope]) ? (next[scope] as Block) : {};
+      const { block, owned } = ops.insert(existing, items);
+      next[scope] = block;
+      newMeta.scopes[scope] = owned;
+    }
+  }
+
+  if (ops.recordValues) {
+    const values: Record<string, string> = {};
+    for (const key of [...newMeta.keys, ...Object.values(newMeta.scopes ?? {}).flat()]) {
+      values[key] = options.values?.[key] ?? String(items[key]);
+    }
+    newMeta.values = values;
+  }
+
+  // Write updated metadata so next run knows what we own
+  if (managedKeyCount(newMeta) > 0) {
+    next[MANAGED_KEY] = newMeta;
+  }
+
+  // ── write back ────────────────────────────────────────────────────
+  // VS Code applies this to the running editor INSTANTLY — no reload.
+  await writeSetting(ops.setting, next, target);
+
+  const where = scopes === null ? "" : ` in ${scopes.join(", ")}`;
+  logger.info(
+    `Applied ${Object.keys(items).length} ${ops.label}${where}${level} — ` +
+    `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed.`
+  );
+  for (const [kind, keys] of Object.entries(diff)) {
+    if (keys.length > 0) logger.debug(`  ${kind}: ${keys.join(", ")}`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
 
 /**
  * Applies `newColors` to workbench.colorCustomizations.
@@ -33,82 +460,300 @@ const TARGET = vscode.ConfigurationTarget.Global;
  *   ✅ New palette overwrites its own previous values
  *   ❌ We never touch colors the user set themselves
  */
-export async function applyColors(newColors: ColorMap): Promise<void> {
-  const config = vscode.workspace.getConfiguration();
+export async function applyColors(
+  newColors: ColorMap,
+  target: vscode.ConfigurationTarget = GLOBAL,
+  source?: string
+): Promise<void> {
+  await writeManaged(colorOps, newColors, target, { source });
+}
 
-  // ── read current state ────────────────────────────────────────────
-  const current = config.get<Record<string, unknown>>(COLOR_CUSTOMIZATIONS, {});
+/**
+ * Applies `tokenColors` to editor.tokenColorCustomizations.textMateRules,
+ * using the same ownership tracking as applyColors().
+ */
+export async function applyTokenColors(
+  tokenColors: TokenColorMap,
+  target: vscode.ConfigurationTarget = GLOBAL
+): Promise<void> {
+  await writeManaged(tokenColorOps, tokenColors, target);
+}
+
+/**
+ * Applies `semanticColors` to editor.semanticTokenColorCustomizations.rules,
+ * using the same ownership tracking as applyColors().
+ */
+export async function applySemanticTokenColors(
+  semanticColors: SemanticTokenColorMap,
+  target: vscode.ConfigurationTarget = GLOBAL
+): Promise<void> {
+  await writeManaged(semanticTokenColorOps, semanticColors, target);
+}
 
-  // ── recover our previously managed keys ──────────────────────────
+/** The user-level color values we currently own, as they are in settings right now */
+export function getManagedColors(): ColorMap {
+  return collectManaged(colorOps, readSetting(COLOR_CUSTOMIZATIONS, GLOBAL));
+}
+
+/** Everything we currently own at user level, read back as a palette */
+export function getManagedPalette(): ParsedPalette {
+  return {
+    colors: collectManaged(colorOps, readSetting(COLOR_CUSTOMIZATIONS, GLOBAL)),
+    tokenColors: collectManaged(tokenColorOps, readSetting(TOKEN_COLOR_CUSTOMIZATIONS, GLOBAL)),
+    semanticTokenColors: collectManaged(
+      semanticTokenColorOps,
+      readSetting(SEMANTIC_TOKEN_COLOR_CUSTOMIZATIONS, GLOBAL)
+    ),
+    meta: {},
+  };
+}
+
+/**
+ * Writes intermediate transition values for keys we already own, in place
+ * and in whichever layout they live. Meta is left untouched — the final
+ * applyColors() of the transition records it.
+ */
+export async function writeColorFrame(frame: ColorMap): Promise<void> {
+  const config = vscode.workspace.getConfiguration();
+  const current = readSetting(COLOR_CUSTOMIZATIONS, GLOBAL);
   const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
-  const previouslyManaged: string[] = meta?.keys ?? [];
+  if (!meta) return;
+
+  const put = (block: Block, keys: string[]): Block => {
+    const next: Block = { ...block };
+    for (const key of keys) {
+      if (frame[key] !== undefined) next[key] = frame[key];
+    }
+    return next;
+  };
 
-  // ── build the new map ─────────────────────────────────────────────
-  // Start from a copy of what exists
-  const next: Record<string, unknown> = { ...current };
+  let next = put(current, meta.keys);
+  for (const [scope, keys] of Object.entries(meta.scopes ?? {})) {
+    if (isPlainObject(next[scope])) {
+      next = { ...next, [scope]: put(next[scope] as Block, keys) };
+    }
+  }
 
-  // Remove only keys we owned before (avoids stale colors persisting
-  // when the palette removes a token)
-  for (const key of previouslyManaged) {
-    delete next[key];
+  // Frame values are ours too — they must not read as hand edits
+  if (meta.values) {
+    const values = { ...meta.values };
+    for (const key of Object.keys(values)) {
+      if (frame[key] !== undefined) values[key] = frame[key];
+    }
+    next[MANAGED_KEY] = { ...meta, values };
   }
 
-  // Remove the old meta entry; we'll write a fresh one
-  delete next[MANAGED_KEY];
+  await config.update(COLOR_CUSTOMIZATIONS, next, GLOBAL);
+}
+
+/**
+ * Hands `token` over to the user, frozen at `value`: it becomes a plain
+ * top-level entry and is dropped from our bookkeeping and from our theme
+ * blocks, so no later apply or clear touches it. The caller keeps it out
+ * of future palettes (matugenBridge.pinnedTokens).
+ */
+export async function pinColor(token: string, value: string): Promise<void> {
+  const current = readSetting(COLOR_CUSTOMIZATIONS, GLOBAL);
+  const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
+  const next: Block = { ...current };
 
-  // Merge new palette colors on top
-  for (const [token, hex] of Object.entries(newColors)) {
-    next[token] = hex;
+  if (meta) {
+    const newMeta: ManagedMeta = { ...meta, keys: meta.keys.filter((k) => k !== token) };
+    if (meta.values) {
+      newMeta.values = { ...meta.values };
+      delete newMeta.values[token];
+    }
+    if (meta.scopes) {
+      newMeta.scopes = {};
+      for (const [scope, keys] of Object.entries(meta.scopes)) {
+        newMeta.scopes[scope] = keys.filter((k) => k !== token);
+        const block = next[scope];
+        if (keys.includes(token) && isPlainObject(block)) {
+          const stripped = colorOps.strip(block, [token]);
+          if (Object.keys(stripped).length > 0) next[scope] = stripped;
+          else delete next[scope];
+        }
+      }
+    }
+    if (managedKeyCount(newMeta) > 0) next[MANAGED_KEY] = newMeta;
+    else delete next[MANAGED_KEY];
   }
 
-  // Write updated metadata so next run knows what we own
-  const newMeta: ManagedMeta = {
-    keys: Object.keys(newColors),
-    appliedAt: new Date().toISOString(),
+  next[token] = value;
+  await writeSetting(COLOR_CUSTOMIZATIONS, next, GLOBAL);
+  logger.info(`Pinned ${token} at ${value}.`);
+}
+
+/**
+ * Removes the entry pinColor() wrote — unless the user has changed it
+ * since, in which case it is theirs and stays.
+ */
+export async function unpinColor(token: string, value: string): Promise<void> {
+  const current = readSetting(COLOR_CUSTOMIZATIONS, GLOBAL);
+  if (current[token] !== value) {
+    logger.debug(`${token} no longer holds its pinned value — leaving it in place.`);
+    return;
+  }
+  const next: Block = { ...current };
+  delete next[token];
+  await writeSetting(COLOR_CUSTOMIZATIONS, next, GLOBAL);
+  logger.info(`Unpinned ${token}.`);
+}
+
+/**
+ * Managed colors at `target` whose value is no longer the one we wrote —
+ * edited or deleted by hand since the last apply. Metas written before
+ * values were recorded report nothing.
+ */
+export function findColorDrift(target: vscode.ConfigurationTarget = GLOBAL): ColorDrift[] {
+  const current = readSetting(COLOR_CUSTOMIZATIONS, target);
+  const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
+  if (!meta?.values) return [];
+  const written = meta.values;
+
+  const drift: ColorDrift[] = [];
+  const check = (block: unknown, keys: string[], scope?: string): void => {
+    const values = isPlainObject(block) ? block : {};
+    for (const key of keys) {
+      if (written[key] === undefined) continue;
+      const value = values[key];
+      if (value === undefined) {
+        drift.push({ key, kind: "removed", scope, written: written[key] });
+      } else if (typeof value !== "string" || value.toLowerCase() !== written[key].toLowerCase()) {
+        drift.push({ key, kind: "changed", scope, written: written[key], current: String(value) });
+      }
+    }
   };
-  next[MANAGED_KEY] = newMeta;
 
-  // ── write back ────────────────────────────────────────────────────
-  // VS Code applies this to the running editor INSTANTLY — no reload.
-  await config.update(COLOR_CUSTOMIZATIONS, next, TARGET);
+  check(current, meta.keys);
+  for (const [scope, keys] of Object.entries(meta.scopes ?? {})) {
+    check(current[scope], keys, scope);
+  }
+  return drift;
+}
+
+/**
+ * Stops managing `keys` at `target`: they are dropped from our bookkeeping
+ * everywhere, and whatever value they hold now — the user's — stays
+ * exactly where it is. The caller keeps them out of future palettes
+ * (matugenBridge.exclude).
+ */
+export async function releaseColors(
+  keys: string[],
+  target: vscode.ConfigurationTarget = GLOBAL
+): Promise<void> {
+  const current = readSetting(COLOR_CUSTOMIZATIONS, target);
+  const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
+  if (!meta || keys.length === 0) return;
+
+  const released = new Set(keys);
+  const keep = (list: string[]): string[] => list.filter((k) => !released.has(k));
+  const newMeta: ManagedMeta = { ...meta, keys: keep(meta.keys) };
+  if (meta.scopes) {
+    newMeta.scopes = {};
+    for (const [scope, list] of Object.entries(meta.scopes)) newMeta.scopes[scope] = keep(list);
+  }
+  if (meta.values) {
+    newMeta.values = { ...meta.values };
+    for (const key of keys) delete newMeta.values[key];
+  }
 
-  logger.info(`Applied ${Object.keys(newColors).length} color overrides.`);
+  const next: Block = { ...current };
+  if (managedKeyCount(newMeta) > 0) next[MANAGED_KEY] = newMeta;
+  else delete next[MANAGED_KEY];
+  await writeSetting(COLOR_CUSTOMIZATIONS, next, target);
+  const level = target === WORKSPACE ? " (workspace)" : "";
+  logger.info(`Released ${keys.length} hand-edited color(s)${level}: ${keys.join(", ")}.`);
 }
 
 /**
- * Removes all colors previously applied by this extension, restoring
- * the user's own settings cleanly.
+ * Re-writes whatever we currently own into the layout selected by
+ * matugenBridge.writeScope, without re-reading the palette. Called when
+ * the write scope or the scoped theme list changes.
  */
-export async function clearColors(): Promise<void> {
-  const config = vscode.workspace.getConfiguration();
-  const current = config.get<Record<string, unknown>>(COLOR_CUSTOMIZATIONS, {});
+export async function migrateManagedLayout(): Promise<void> {
+  for (const target of writableTargets()) {
+    const colors = collectManaged(colorOps, readSetting(COLOR_CUSTOMIZATIONS, target));
+    const tokens = collectManaged(tokenColorOps, readSetting(TOKEN_COLOR_CUSTOMIZATIONS, target));
+    const semantic = collectManaged(
+      semanticTokenColorOps,
+      readSetting(SEMANTIC_TOKEN_COLOR_CUSTOMIZATIONS, target)
+    );
 
-  const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
-  if (!meta || meta.keys.length === 0) {
-    logger.info("No managed colors found — nothing to clear.");
-    return;
+    // Keep the values we wrote, so hand edits still read as drift
+    const written = (readSetting(COLOR_CUSTOMIZATIONS, target)[MANAGED_KEY] as ManagedMeta | undefined)?.values;
+    await writeManaged(colorOps, colors, target, { values: written });
+    await writeManaged(tokenColorOps, tokens, target);
+    await writeManaged(semanticTokenColorOps, semantic, target);
   }
+}
 
-  const next: Record<string, unknown> = { ...current };
-  for (const key of meta.keys) {
-    delete next[key];
+/**
+ * Removes all colors, token color rules and semantic token rules
+ * previously applied by this extension, restoring the user's own
+ * settings cleanly. Without `targets`, both user and workspace settings
+ * are cleared.
+ */
+export async function clearColors(
+  targets: vscode.ConfigurationTarget[] = writableTargets()
+): Promise<void> {
+  let cleared = false;
+
+  for (const target of targets) {
+    for (const ops of [colorOps, tokenColorOps, semanticTokenColorOps] as SectionOps<unknown>[]) {
+      const current = readSetting(ops.setting, target);
+      const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
+      if (!meta) continue;
+
+      await writeSetting(ops.setting, stripAllManaged(ops, current), target);
+      const level = target === WORKSPACE ? " (workspace)" : "";
+      logger.info(`Cleared ${managedKeyCount(meta)} managed ${ops.label}${level}.`);
+      cleared = true;
+    }
   }
-  delete next[MANAGED_KEY];
 
-  await config.update(COLOR_CUSTOMIZATIONS, next, TARGET);
-  logger.info(`Cleared ${meta.keys.length} managed color override(s).`);
+  if (!cleared) {
+    logger.info("No managed colors found — nothing to clear.");
+  }
 }
 
 /**
  * Returns a summary of what we currently manage, for status display.
  */
-export function getManagedStatus(): { count: number; appliedAt: string | null } {
-  const config = vscode.workspace.getConfiguration();
-  const current = config.get<Record<string, unknown>>(COLOR_CUSTOMIZATIONS, {});
-  const meta = current[MANAGED_KEY] as ManagedMeta | undefined;
+export function getManagedStatus(): {
+  count: number;
+  tokenColorCount: number;
+  semanticTokenColorCount: number;
+  /** The latest write of any of the three settings */
+  appliedAt: string | null;
+  /** Where the applied palette came from (ManagedMeta.source) */
+  source: string | undefined;
+  /** "[Theme Name]" blocks holding our colors — empty in global layout */
+  scopes: string[];
+  /** Colors written to workspace settings by the workspace layer */
+  workspaceCount: number;
+} {
+  const meta = (setting: string, target = GLOBAL): ManagedMeta | undefined =>
+    readSetting(setting, target)[MANAGED_KEY] as ManagedMeta | undefined;
+
+  const colorMeta = meta(COLOR_CUSTOMIZATIONS);
+  const tokenMeta = meta(TOKEN_COLOR_CUSTOMIZATIONS);
+  const semanticMeta = meta(SEMANTIC_TOKEN_COLOR_CUSTOMIZATIONS);
 
   return {
-    count: meta?.keys.length ?? 0,
-    appliedAt: meta?.appliedAt ?? null,
+    count: managedKeyCount(colorMeta),
+    tokenColorCount: managedKeyCount(tokenMeta),
+    semanticTokenColorCount: managedKeyCount(semanticMeta),
+    // ISO-8601 strings sort by time
+    appliedAt: [colorMeta, tokenMeta, semanticMeta]
+      .map((m) => m?.appliedAt)
+      .filter((t): t is string => t !== undefined)
+      .sort()
+      .pop() ?? null,
+    source: colorMeta?.source,
+    scopes: Object.keys(colorMeta?.scopes ?? {}),
+    workspaceCount: writableTargets().includes(WORKSPACE)
+      ? managedKeyCount(meta(COLOR_CUSTOMIZATIONS, WORKSPACE))
+      : 0,
   };
 }
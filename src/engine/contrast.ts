@@ -0,0 +1,153 @@
+// src/engine/contrast.ts
+// WCAG contrast audit for a ColorMap, run between readPalette() and
+// applyColors().
+//
+// Knows the foreground/background token pairs VS Code actually paints on
+// top of each other. Depending on the mode, a pair below the minimum
+// ratio is only reported ("warn") or its foreground is nudged in OKLCH
+// lightness until the ratio is met ("fix"). Pairs where either token is
+// absent from the palette are skipped — we can't know the theme's value.
+
+import type { ColorMap, ContrastMode } from "../types";
+import { adjustLightness, composite, contrastRatio, parseHex, rgbToOklch, toHex } from "../utils/color";
+import type { RGBA } from "../utils/color";
+import { logger } from "../utils/logger";
+
+/** [foreground, background] token pairs, roughly in order of importance */
+export const CONTRAST_PAIRS: ReadonlyArray<readonly [string, string]> = [
+  ["editor.foreground", "editor.background"],
+  ["editorLineNumber.activeForeground", "editor.background"],
+  ["statusBar.foreground", "statusBar.background"],
+  ["statusBar.debuggingForeground", "statusBar.debuggingBackground"],
+  ["statusBar.noFolderForeground", "statusBar.noFolderBackground"],
+  ["statusBarItem.remoteForeground", "statusBarItem.remoteBackground"],
+  ["titleBar.activeForeground", "titleBar.activeBackground"],
+  ["activityBar.foreground", "activityBar.background"],
+  ["activityBarBadge.foreground", "activityBarBadge.background"],
+  ["sideBar.foreground", "sideBar.background"],
+  ["sideBarTitle.foreground", "sideBar.background"],
+  ["sideBarSectionHeader.foreground", "sideBarSectionHeader.background"],
+  ["tab.activeForeground", "tab.activeBackground"],
+  ["tab.inactiveForeground", "tab.inactiveBackground"],
+  ["panelTitle.activeForeground", "panel.background"],
+  ["terminal.foreground", "terminal.background"],
+  ["editorWidget.foreground", "editorWidget.background"],
+  ["editorSuggestWidget.foreground", "editorSuggestWidget.background"],
+  ["editorSuggestWidget.selectedForeground", "editorSuggestWidget.selectedBackground"],
+  ["editorHoverWidget.foreground", "editorHoverWidget.background"],
+  ["input.foreground", "input.background"],
+  ["dropdown.foreground", "dropdown.background"],
+  ["button.foreground", "button.background"],
+  ["button.secondaryForeground", "button.secondaryBackground"],
+  ["badge.foreground", "badge.background"],
+  ["list.activeSelectionForeground", "list.activeSelectionBackground"],
+  ["list.inactiveSelectionForeground", "list.inactiveSelectionBackground"],
+  ["quickInput.foreground", "quickInput.background"],
+  ["menu.foreground", "menu.background"],
+  ["menu.selectionForeground", "menu.selectionBackground"],
+  ["notifications.foreground", "notifications.background"],
+  ["breadcrumb.foreground", "breadcrumb.background"],
+];
+
+export interface ContrastFinding {
+  foreground: string;
+  background: string;
+  /** Ratio as read from the palette */
+  ratio: number;
+  /** Ratio after correction (fix mode only) */
+  fixedRatio?: number;
+  /** New foreground value (fix mode only) */
+  fixedValue?: string;
+}
+
+export interface ContrastReport {
+  /** The colors to apply — adjusted copies in fix mode, the input otherwise */
+  colors: ColorMap;
+  /** Every pair that was below the minimum ratio */
+  findings: ContrastFinding[];
+}
+
+/**
+ * Resolves a token to an opaque color. Translucent backgrounds are laid
+ * over editor.background (what most panels sit on) when it is known.
+ */
+function opaque(colors: ColorMap, token: string): RGBA | undefined {
+  const c = colors[token] !== undefined ? parseHex(colors[token]) : undefined;
+  if (!c || c.a >= 1) return c;
+  const base = colors["editor.background"] !== undefined ? parseHex(colors["editor.background"]) : undefined;
+  return base && base.a >= 1 ? composite(c, base) : undefined;
+}
+
+/**
+ * Searches for the smallest OKLCH lightness shift of `fg` (away from the
+ * background) that reaches `minRatio`. Falls back to the most contrasting
+ * value reachable when the target can't be met.
+ */
+export function fixForeground(fg: RGBA, bg: RGBA, minRatio: number): RGBA {
+  const ratioWith = (delta: number): number => contrastRatio(composite(adjustLightness(fg, delta), bg), bg);
+
+  // Move toward white on dark backgrounds, toward black on light ones
+  const L = rgbToOklch(fg).L;
+  const direction = rgbToOklch(bg).L < 0.5 ? 1 : -1;
+  const maxDelta = direction > 0 ? 1 - L : L;
+
+  if (ratioWith(direction * maxDelta) < minRatio) {
+    return adjustLightness(fg, direction * maxDelta);
+  }
+
+  let lo = 0;
+  let hi = maxDelta;
+  for (let i = 0; i < 24; i++) {
+    const mid = (lo + hi) / 2;
+    if (ratioWith(direction * mid) >= minRatio) hi = mid; else lo = mid;
+  }
+  return adjustLightness(fg, direction * hi);
+}
+
+/**
+ * Audits every known pair in `colors`. In "fix" mode the returned map has
+ * the failing foregrounds replaced; the input map is never mutated.
+ */
+export function auditContrast(colors: ColorMap, mode: ContrastMode, minRatio: number): ContrastReport {
+  if (mode === "off") {
+    return { colors, findings: [] };
+  }
+
+  const out: ColorMap = { ...colors };
+  const findings: ContrastFinding[] = [];
+
+  for (const [fgToken, bgToken] of CONTRAST_PAIRS) {
+    const fgRaw = out[fgToken] !== undefined ? parseHex(out[fgToken]) : undefined;
+    const bg = opaque(out, bgToken);
+    if (!fgRaw || !bg) continue;
+
+    const ratio = contrastRatio(composite(fgRaw, bg), bg);
+    if (ratio >= minRatio) continue;
+
+    const finding: ContrastFinding = { foreground: fgToken, background: bgToken, ratio };
+
+    if (mode === "fix") {
+      // Aim slightly above the minimum so 8-bit rounding can't undo the fix
+      finding.fixedValue = toHex(fixForeground(fgRaw, bg, minRatio + 0.01));
+      finding.fixedRatio = contrastRatio(composite(parseHex(finding.fixedValue)!, bg), bg);
+      out[fgToken] = finding.fixedValue;
+    }
+
+    findings.push(finding);
+  }
+
+  for (const f of findings) {
+    if (f.fixedValue !== undefined) {
+      logger.info(
+        `Contrast: adjusted ${f.foreground} ${colors[f.foreground]} → ${f.fixedValue} ` +
+        `(${f.ratio.toFixed(2)}:1 → ${f.fixedRatio!.toFixed(2)}:1 on ${f.background})`
+      );
+    } else {
+      logger.info(
+        `Contrast: ${f.foreground} on ${f.background} is ${f.ratio.toFixed(2)}:1 (minimum ${minRatio}:1)`
+      );
+    }
+  }
+
+  return { colors: out, findings };
+}
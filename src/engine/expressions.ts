@@ -0,0 +1,292 @@
+// src/engine/expressions.ts
+// Evaluates color expressions inside the palette file, before validation.
+//
+// Supported forms (calls nest freely):
+//   "$editor.background"          → value of another token
+//   "$accent"                     → value of a variable declared under "_vars"
+//   "alpha($primary, 0.25)"       → same color with alpha replaced (0–1 or 0–100%)
+//   "mix($a, #000000, 0.3)"       → interpolation in OKLab (t defaults to 0.5)
+//   "lighten($a, 0.1)"            → OKLCH lightness +0.1 (darken: −0.1)
+//
+// Any CSS color the reader accepts (see utils/cssColor.ts) also works as an
+// argument: "mix(tomato, rgb(0 0 0), 0.2)". A value that is a single
+// color function ("rgb(…)", "oklch(…)") goes through here too and comes
+// out as hex.
+//
+// Plain literals are passed through untouched; the reader validates them
+// afterwards exactly as before. Expressions are also evaluated for the
+// foreground values in "_tokenColors" and "_semanticTokenColors".
+
+import type { PaletteFile } from "../types";
+import { adjustLightness, mixColors, toHex } from "../utils/color";
+import type { RGBA } from "../utils/color";
+import { isColorFunction, parseCssColor } from "../utils/cssColor";
+
+/** Thrown for any failure while evaluating one expression */
+class ExpressionError extends Error {}
+
+type Value =
+  | { kind: "color"; text: string }
+  | { kind: "number"; value: number };
+
+/** A value is an expression if it references something or calls a function */
+function isExpression(v: string): boolean {
+  return v.includes("$") || v.includes("(");
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parser — tiny recursive descent over a single expression string
+// ─────────────────────────────────────────────────────────────────────────────
+
+const REF_RE = /^\$([A-Za-z0-9_][\w.-]*)/;
+const HEX_RE = /^#[0-9a-fA-F]+/;
+const NUMBER_RE = /^-?(\d+(\.\d*)?|\.\d+)%?/;
+const IDENT_RE = /^[A-Za-z_]\w*/;
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly src: string,
+    private readonly resolveRef: (name: string) => string
+  ) {}
+
+  parse(): Value {
+    const value = this.expr();
+    this.skipWs();
+    if (this.pos < this.src.length) {
+      throw new ExpressionError(`unexpected "${this.src.slice(this.pos)}"`);
+    }
+    return value;
+  }
+
+  private skipWs(): void {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) this.pos++;
+  }
+
+  private match(re: RegExp): RegExpExecArray | null {
+    this.skipWs();
+    const m = re.exec(this.src.slice(this.pos));
+    if (m) this.pos += m[0].length;
+    return m;
+  }
+
+  private expect(ch: string): void {
+    this.skipWs();
+    if (this.src[this.pos] !== ch) {
+      const found = this.pos < this.src.length ? `"${this.src[this.pos]}"` : "end of expression";
+      throw new ExpressionError(`expected "${ch}" but found ${found}`);
+    }
+    this.pos++;
+  }
+
+  private expr(): Value {
+    let m: RegExpExecArray | null;
+
+    if ((m = this.match(REF_RE))) {
+      return { kind: "color", text: this.resolveRef(m[1]) };
+    }
+    if ((m = this.match(HEX_RE))) {
+      return { kind: "color", text: m[0] };
+    }
+    if ((m = this.match(NUMBER_RE))) {
+      const n = parseFloat(m[0]);
+      return { kind: "number", value: m[0].endsWith("%") ? n / 100 : n };
+    }
+    if ((m = this.match(IDENT_RE))) {
+      const name = m[0];
+      this.skipWs();
+      if (this.src[this.pos] !== "(") return this.cssColor(name);
+      if (isColorFunction(name)) {
+        const close = this.src.indexOf(")", this.pos);
+        if (close < 0) throw new ExpressionError(`expected ")" but found end of expression`);
+        const text = name + this.src.slice(this.pos, close + 1);
+        this.pos = close + 1;
+        return this.cssColor(text);
+      }
+      this.expect("(");
+      const args: Value[] = [];
+      this.skipWs();
+      if (this.src[this.pos] !== ")") {
+        args.push(this.expr());
+        this.skipWs();
+        while (this.src[this.pos] === ",") {
+          this.pos++;
+          args.push(this.expr());
+          this.skipWs();
+        }
+      }
+      this.expect(")");
+      return callFunction(name, args);
+    }
+
+    const rest = this.src.slice(this.pos).trim();
+    throw new ExpressionError(rest === "" ? "unexpected end of expression" : `unexpected "${rest}"`);
+  }
+
+  /** A named color or CSS color function, as a hex color value */
+  private cssColor(text: string): Value {
+    const parsed = parseCssColor(text);
+    if (!parsed.ok) throw new ExpressionError(parsed.reason);
+    return { kind: "color", text: toHex(parsed.color) };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+function asColor(fn: string, v: Value | undefined, index: number): RGBA {
+  if (v === undefined) throw new ExpressionError(`${fn}() is missing argument ${index + 1}`);
+  if (v.kind !== "color") throw new ExpressionError(`${fn}() argument ${index + 1} must be a color`);
+  const parsed = parseCssColor(v.text);
+  if (!parsed.ok) throw new ExpressionError(`${fn}() argument ${index + 1}: ${parsed.reason}`);
+  return parsed.color;
+}
+
+function asNumber(fn: string, v: Value | undefined, index: number, min: number, max: number): number {
+  if (v === undefined) throw new ExpressionError(`${fn}() is missing argument ${index + 1}`);
+  if (v.kind !== "number") throw new ExpressionError(`${fn}() argument ${index + 1} must be a number`);
+  if (v.value < min || v.value > max) {
+    throw new ExpressionError(`${fn}() argument ${index + 1} must be between ${min} and ${max}`);
+  }
+  return v.value;
+}
+
+function arity(fn: string, args: Value[], min: number, max: number): void {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : `${min}–${max}`;
+    throw new ExpressionError(`${fn}() takes ${expected} argument(s), got ${args.length}`);
+  }
+}
+
+function callFunction(name: string, args: Value[]): Value {
+  const color = (c: RGBA): Value => ({ kind: "color", text: toHex(c) });
+
+  switch (name) {
+    case "alpha": {
+      arity(name, args, 2, 2);
+      const c = asColor(name, args[0], 0);
+      return color({ ...c, a: asNumber(name, args[1], 1, 0, 1) });
+    }
+    case "mix": {
+      arity(name, args, 2, 3);
+      const a = asColor(name, args[0], 0);
+      const b = asColor(name, args[1], 1);
+      const t = args.length === 3 ? asNumber(name, args[2], 2, 0, 1) : 0.5;
+      return color(mixColors(a, b, t));
+    }
+    case "lighten":
+    case "darken": {
+      arity(name, args, 2, 2);
+      const c = asColor(name, args[0], 0);
+      const amount = asNumber(name, args[1], 1, 0, 1);
+      return color(adjustLightness(c, name === "lighten" ? amount : -amount));
+    }
+    default:
+      throw new ExpressionError(`unknown function "${name}"`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resolution over the whole palette
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Returns a copy of `palette` with every expression replaced by its hex
+ * result. Tokens whose expression fails are removed from the copy and
+ * reported in `errors`, each naming the token it belongs to.
+ * Never throws.
+ */
+export function resolveExpressions(palette: PaletteFile): { palette: PaletteFile; errors: string[] } {
+  const vars = isPlainObject(palette._vars) ? palette._vars : {};
+  const errors: string[] = [];
+
+  const memo = new Map<string, string>();
+  const stack: string[] = [];
+
+  // `$name` looks up "_vars" first, then top-level tokens
+  const resolveRef = (name: string): string => {
+    const isVar = Object.prototype.hasOwnProperty.call(vars, name);
+    const raw = isVar ? vars[name] : palette[name];
+    if (raw === undefined) throw new ExpressionError(`unknown reference "$${name}"`);
+    if (typeof raw !== "string") throw new ExpressionError(`"$${name}" is not a color value`);
+    return resolveId(isVar ? `_vars.${name}` : name, raw);
+  };
+
+  /** Evaluates `raw` as the value of `id`, memoised and cycle-checked */
+  const resolveId = (id: string, raw: string): string => {
+    const cached = memo.get(id);
+    if (cached !== undefined) return cached;
+
+    if (stack.includes(id)) {
+      const chain = [...stack.slice(stack.indexOf(id)), id].map((s) => `$${s.replace(/^_vars\./, "")}`);
+      throw new ExpressionError(`circular reference: ${chain.join(" → ")}`);
+    }
+
+    stack.push(id);
+    try {
+      const value = evaluate(raw);
+      memo.set(id, value);
+      return value;
+    } finally {
+      stack.pop();
+    }
+  };
+
+  const evaluate = (raw: string): string => {
+    if (!isExpression(raw)) return raw;
+    const result = new Parser(raw, resolveRef).parse();
+    if (result.kind !== "color") {
+      throw new ExpressionError(`expression evaluates to a number, not a color`);
+    }
+    return result.text;
+  };
+
+  /** Evaluates one value, recording a failure against `label` */
+  const evaluateFor = (label: string, raw: string, id?: string): string | undefined => {
+    try {
+      return id !== undefined ? resolveId(id, raw) : evaluate(raw);
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      errors.push(`Expression error in ${label}: ${e.message}`);
+      return undefined;
+    }
+  };
+
+  const out: PaletteFile = { ...palette };
+
+  for (const [key, value] of Object.entries(palette)) {
+    if (key.startsWith("_") || typeof value !== "string" || !isExpression(value)) continue;
+    const result = evaluateFor(`"${key}"`, value, key);
+    if (result === undefined) delete out[key];
+    else out[key] = result;
+  }
+
+  for (const section of ["_tokenColors", "_semanticTokenColors"] as const) {
+    const rules = palette[section];
+    if (!isPlainObject(rules)) continue;
+
+    const next: Record<string, unknown> = { ...rules };
+    for (const [selector, style] of Object.entries(rules)) {
+      const label = `${section}["${selector}"]`;
+      if (typeof style === "string") {
+        if (!isExpression(style)) continue;
+        const result = evaluateFor(label, style);
+        if (result === undefined) delete next[selector];
+        else next[selector] = result;
+      } else if (isPlainObject(style) && typeof style.foreground === "string" && isExpression(style.foreground)) {
+        const result = evaluateFor(label, style.foreground);
+        if (result === undefined) delete next[selector];
+        else next[selector] = { ...style, foreground: result };
+      }
+    }
+    out[section] = next as PaletteFile[typeof section];
+  }
+
+  return { palette: out, errors };
+}
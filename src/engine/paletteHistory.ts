@@ -0,0 +1,177 @@
+// src/engine/paletteHistory.ts
+// Keeps the last N successfully applied palettes in the extension's global
+// storage so an ugly scheme can be rolled back.
+//
+// Stored as a single JSON file:
+//   { snapshots: [newest … oldest], currentId, pinnedId }
+//
+//  - currentId: the snapshot that is live right now. Rolling back moves it
+//    to an older entry without recording anything new.
+//  - pinnedId:  while set, file-driven applies are ignored so the pinned
+//    snapshot stays live. Pinned snapshots are never evicted.
+//
+// The history picker draws a swatch file per snapshot in SWATCH_DIR;
+// trimming deletes those whose snapshot is gone.
+
+import * as fs from "fs";
+import * as path from "path";
+import type { ParsedPalette, PaletteSnapshot } from "../types";
+import { logger } from "../utils/logger";
+
+interface HistoryState {
+  snapshots: PaletteSnapshot[];
+  currentId?: string;
+  pinnedId?: string;
+}
+
+const HISTORY_FILE = "palette-history.json";
+
+/** Directory under the storage dir holding "<snapshot id>.svg" swatches */
+export const SWATCH_DIR = "swatches";
+
+/** Cheap structural key for spotting re-applies of an identical palette */
+function contentKey(p: ParsedPalette): string {
+  return JSON.stringify([p.colors, p.tokenColors, p.semanticTokenColors]);
+}
+
+export class PaletteHistory {
+  private readonly file: string;
+  private state: HistoryState;
+
+  constructor(private readonly storageDir: string, private maxEntries: number) {
+    this.maxEntries = Math.max(1, maxEntries);
+    this.file = path.join(storageDir, HISTORY_FILE);
+    this.state = this.load();
+  }
+
+  private load(): HistoryState {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.file, "utf8")) as HistoryState;
+      if (Array.isArray(parsed.snapshots)) return parsed;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error(`Palette history is unreadable — starting fresh: ${(e as Error).message}`);
+      }
+    }
+    return { snapshots: [] };
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(this.storageDir, { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(this.state), "utf8");
+    } catch (e) {
+      logger.error(`Failed to save palette history: ${(e as Error).message}`);
+    }
+  }
+
+  /** Re-reads the file — the window that led before may have recorded since */
+  reload(): void {
+    this.state = this.load();
+  }
+
+  /** Drops the oldest unpinned snapshots beyond the configured size, and their swatches */
+  private trim(): void {
+    const snapshots = this.state.snapshots;
+    for (let i = snapshots.length - 1; i >= 0 && snapshots.length > this.maxEntries; i--) {
+      if (snapshots[i].id !== this.state.pinnedId) snapshots.splice(i, 1);
+    }
+    this.pruneSwatches();
+  }
+
+  /** Deletes swatch files of snapshots no longer in the history */
+  private pruneSwatches(): void {
+    const dir = path.join(this.storageDir, SWATCH_DIR);
+    const kept = new Set(this.state.snapshots.map((s) => `${s.id}.svg`));
+    let files: string[];
+    try {
+      files = fs.readdirSync(dir);
+    } catch {
+      return; // No swatches drawn yet
+    }
+    for (const file of files) {
+      if (kept.has(file)) continue;
+      try {
+        fs.unlinkSync(path.join(dir, file));
+      } catch (e) {
+        logger.debug(`Could not delete swatch ${file}: ${(e as Error).message}`);
+      }
+    }
+  }
+
+  setMaxEntries(maxEntries: number): void {
+    this.maxEntries = Math.max(1, maxEntries);
+    this.trim();
+    this.save();
+  }
+
+  /**
+   * Records a freshly applied palette and makes it current. Re-applying the
+   * palette that is already newest only refreshes its position.
+   */
+  record(palette: ParsedPalette): PaletteSnapshot {
+    const newest = this.state.snapshots[0];
+    if (newest && contentKey(newest) === contentKey(palette)) {
+      this.state.currentId = newest.id;
+      this.save();
+      return newest;
+    }
+
+    const snapshot: PaletteSnapshot = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      savedAt: new Date().toISOString(),
+      colors: { ...palette.colors },
+      tokenColors: { ...palette.tokenColors },
+      semanticTokenColors: { ...palette.semanticTokenColors },
+      meta: { ...palette.meta },
+    };
+
+    this.state.snapshots.unshift(snapshot);
+    this.state.currentId = snapshot.id;
+    this.trim();
+    this.save();
+    logger.debug(`Saved palette snapshot ${snapshot.id} (${this.state.snapshots.length} in history).`);
+    return snapshot;
+  }
+
+  /** Newest first */
+  list(): PaletteSnapshot[] {
+    return [...this.state.snapshots];
+  }
+
+  get(id: string): PaletteSnapshot | undefined {
+    return this.state.snapshots.find((s) => s.id === id);
+  }
+
+  get current(): PaletteSnapshot | undefined {
+    return this.state.currentId !== undefined ? this.get(this.state.currentId) : undefined;
+  }
+
+  get pinned(): PaletteSnapshot | undefined {
+    return this.state.pinnedId !== undefined ? this.get(this.state.pinnedId) : undefined;
+  }
+
+  /** The snapshot just older than the current one, for one-step rollback */
+  previous(): PaletteSnapshot | undefined {
+    const idx = this.state.snapshots.findIndex((s) => s.id === this.state.currentId);
+    return this.state.snapshots[idx < 0 ? 0 : idx + 1];
+  }
+
+  /** Marks an existing snapshot as live (after a rollback or pick) */
+  markCurrent(id: string): void {
+    if (!this.get(id)) return;
+    this.state.currentId = id;
+    this.save();
+  }
+
+  pin(id: string): void {
+    if (!this.get(id)) return;
+    this.state.pinnedId = id;
+    this.save();
+  }
+
+  unpin(): void {
+    delete this.state.pinnedId;
+    this.save();
+  }
+}
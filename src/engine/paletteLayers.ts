@@ -0,0 +1,139 @@
+// src/engine/paletteLayers.ts
+// Layered palette sources.
+//
+// The matugen output is the base; a personal overrides file and an optional
+// per-workspace file are laid over it, later layers winning key by key.
+// Each layer is an ordinary palette file (variants, _vars, expressions,
+// token rules all work), read with the same reader as the base.
+//
+// A layer may carry its text inline (a pushed palette) instead of a file.
+//
+// Layers targeting user settings are merged into one palette. The workspace
+// layer is kept apart so it can be written to workspace settings, where
+// VS Code lays it over the user-level colors on its own.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type {
+  LayeredReadResult,
+  PaletteFormat,
+  PaletteLayer,
+  PaletteReadOptions,
+  ParsedPalette,
+} from "../types";
+import { parsePalette, readPalette } from "./paletteReader";
+import { logger } from "../utils/logger";
+
+/** Default location of the per-workspace layer, relative to the folder root */
+export const DEFAULT_WORKSPACE_OVERRIDES = ".vscode/matugen-overrides.json";
+
+export interface LayerPaths {
+  /** Resolved path of the matugen palette file */
+  palettePath: string;
+  /** matugenBridge.format — applies to the matugen palette file only */
+  format: PaletteFormat;
+  /** matugenBridge.overridesPath — empty disables the personal layer */
+  overridesPath: string;
+  /** matugenBridge.workspaceOverridesPath — empty disables the workspace layer */
+  workspaceOverridesPath: string;
+  /** Root of the first workspace folder, if a folder is open */
+  workspaceFolder: string | undefined;
+}
+
+function expandHome(p: string): string {
+  return p.startsWith("~") ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+/** Builds the ordered layer list from settings, lowest precedence first */
+export function resolveLayers(paths: LayerPaths): PaletteLayer[] {
+  const layers: PaletteLayer[] = [
+    { name: "matugen", path: paths.palettePath, optional: false, target: "global", format: paths.format },
+  ];
+
+  if (paths.overridesPath.trim() !== "") {
+    layers.push({
+      name: "personal",
+      path: expandHome(paths.overridesPath.trim()),
+      optional: true,
+      target: "global",
+      format: "auto",
+    });
+  }
+
+  const wsPath = paths.workspaceOverridesPath.trim();
+  if (wsPath !== "" && paths.workspaceFolder) {
+    const expanded = expandHome(wsPath);
+    layers.push({
+      name: "workspace",
+      path: path.isAbsolute(expanded) ? expanded : path.join(paths.workspaceFolder, expanded),
+      optional: true,
+      target: "workspace",
+      format: "auto",
+    });
+  }
+
+  return layers;
+}
+
+/** Merges palettes in order — later entries win per token, rule and meta key */
+export function mergePalettes(palettes: ParsedPalette[]): ParsedPalette {
+  const merged: ParsedPalette = { colors: {}, tokenColors: {}, semanticTokenColors: {}, meta: {} };
+  for (const p of palettes) {
+    Object.assign(merged.colors, p.colors);
+    Object.assign(merged.tokenColors, p.tokenColors);
+    Object.assign(merged.semanticTokenColors, p.semanticTokenColors);
+    Object.assign(merged.meta, p.meta);
+  }
+  return merged;
+}
+
+/**
+ * Reads every layer. A missing optional file is silently skipped; an
+ * optional file that exists but is broken is reported in `skipped` and
+ * left out. Only a failing required layer fails the whole read.
+ * Never throws.
+ */
+export function readLayers(layers: PaletteLayer[], options: PaletteReadOptions = {}): LayeredReadResult {
+  const global: ParsedPalette[] = [];
+  let workspace: ParsedPalette | null = null;
+  const skipped: string[] = [];
+
+  for (const layer of layers) {
+    if (layer.content === undefined && layer.optional && !fs.existsSync(layer.path)) {
+      logger.debug(`No ${layer.name} layer at ${layer.path} — skipping.`);
+      continue;
+    }
+
+    if (layer.content === undefined && !layer.optional && !fs.existsSync(layer.path)) {
+      return { ok: false, error: `Palette file not found: ${layer.path}`, missing: true };
+    }
+
+    const layerOptions = { ...options, format: layer.format };
+    const result = layer.content !== undefined
+      ? parsePalette(layer.content, layerOptions, layer.path)
+      : readPalette(layer.path, layerOptions);
+    if (!result.ok) {
+      if (!layer.optional) return { ok: false, error: result.error };
+      skipped.push(`${layer.name} layer ignored — ${result.error}`);
+      continue;
+    }
+
+    logger.debug(`Read ${layer.name} layer: ${Object.keys(result.colors).length} color(s).`);
+    const palette: ParsedPalette = {
+      colors: result.colors,
+      tokenColors: result.tokenColors,
+      semanticTokenColors: result.semanticTokenColors,
+      meta: result.meta,
+    };
+    if (layer.target === "workspace") workspace = palette;
+    else global.push(palette);
+  }
+
+  return {
+    ok: true,
+    global: global.length > 0 ? mergePalettes(global) : null,
+    workspace,
+    skipped,
+  };
+}
@@ -1,23 +1,248 @@
 // src/engine/paletteReader.ts
 // Reads the vscode-palette.json written by matugen, validates it,
-// and returns a clean ColorMap of { "token.name": "#rrggbb" }.
+// and returns a clean ColorMap of { "token.name": "#rrggbb" } plus the
+// TextMate rules found under "_tokenColors" and the semantic token rules
+// found under "_semanticTokenColors".
+//
+// matugen's raw scheme output (`matugen image … --json hex`) is accepted
+// too: its Material You roles are mapped to tokens via roleMapping.ts.
+// Schemes from other tools (pywal, base16/base24, Xresources, GTK CSS) are
+// handed to the importers in src/importers/ before any JSON parsing.
+//
+// Multi-variant files ("dark", "light", "highContrast", "highContrastLight"
+// blocks) are reduced to the requested variant first.
+//
+// Color expressions ("$token", "alpha(…)", "mix(…)", …) are evaluated by
+// expressions.ts before any value is validated. Every color value is then
+// normalized by utils/cssColor.ts, so "rgb(…)", "hsl(…)", "oklch(…)", named
+// colors and #rgb shorthand all reach the applier as #rrggbb / #rrggbbaa.
+//
+// Token names are checked against the bundled registry in colorRegistry.ts:
+// a near miss of a known ID ("editor.backgroud") is reported and skipped,
+// anything else unknown is assumed to be an extension-contributed color.
 
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
-import type { ColorMap, PaletteFile, PaletteReadResult } from "../types";
+import { PALETTE_VARIANTS } from "../types";
+import type {
+  ColorMap,
+  PaletteFile,
+  PaletteMeta,
+  PaletteReadOptions,
+  PaletteReadResult,
+  PaletteVariant,
+  RoleScheme,
+  SchemeMode,
+  SemanticTokenColorMap,
+  SemanticTokenStyle,
+  TokenColorMap,
+  TokenStyle,
+} from "../types";
+import { importPalette, selectImporter } from "../importers";
+import { normalizeColor } from "../utils/cssColor";
+import type { ColorNormalizeResult } from "../utils/cssColor";
 import { logger } from "../utils/logger";
+import { isKnownColor, suggestColors } from "./colorRegistry";
+import { resolveExpressions } from "./expressions";
+import { mapRoleScheme } from "./roleMapping";
 
-/** Matches 3, 4, 6, or 8-digit hex colors */
-const HEX_RE = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+/** Normalizes a color value to hex, or explains why it is not a color */
+export function toColor(value: unknown): ColorNormalizeResult {
+  if (typeof value !== "string") {
+    return { ok: false, reason: `expected a color string, got ${JSON.stringify(value)}` };
+  }
+  return normalizeColor(value);
+}
 
-function isHex(v: string): boolean {
-  return HEX_RE.test(v);
+/**
+ * Keys starting with "_" are metadata — skip them. Dotless keys are only
+ * tokens when the registry knows them ("focusBorder", "foreground", …).
+ */
+export function isColorToken(key: string): boolean {
+  return !key.startsWith("_") && (key.includes(".") || isKnownColor(key));
 }
 
-/** Keys starting with "_" are metadata — skip them */
-function isColorToken(key: string): boolean {
-  return !key.startsWith("_") && key.includes(".");
+/** fontStyle accepts any combination of these words, or "" to reset */
+const FONT_STYLE_RE = /^(\s*(italic|bold|underline|strikethrough)\s*)*$/;
+
+/**
+ * Validates the "_tokenColors" section. Each entry is either a hex string
+ * (foreground only) or a { foreground?, fontStyle? } object.
+ * Invalid entries are skipped and counted, like top-level tokens.
+ */
+function extractTokenColors(section: unknown): { rules: TokenColorMap; skipped: number } {
+  const rules: TokenColorMap = {};
+  let skipped = 0;
+
+  if (section === undefined) return { rules, skipped };
+  if (typeof section !== "object" || section === null || Array.isArray(section)) {
+    logger.debug(`Skipping "_tokenColors": expected an object of scope → style.`);
+    return { rules, skipped: 1 };
+  }
+
+  for (const [scope, value] of Object.entries(section as Record<string, unknown>)) {
+    if (scope.trim() === "") { skipped++; continue; }
+
+    if (typeof value === "string") {
+      const color = toColor(value);
+      if (!color.ok) {
+        logger.debug(`Skipping token color for scope "${scope}": ${color.reason}`);
+        skipped++;
+        continue;
+      }
+      rules[scope] = { foreground: color.hex };
+      continue;
+    }
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) { skipped++; continue; }
+
+    const { foreground, fontStyle } = value as Record<string, unknown>;
+    const style: TokenStyle = {};
+    if (foreground !== undefined) {
+      const color = toColor(foreground);
+      if (color.ok) style.foreground = color.hex;
+      else logger.debug(`Ignoring invalid foreground for scope "${scope}": ${color.reason}`);
+    }
+    if (typeof fontStyle === "string" && FONT_STYLE_RE.test(fontStyle)) {
+      style.fontStyle = fontStyle.trim().replace(/\s+/g, " ");
+    } else if (fontStyle !== undefined) {
+      logger.debug(`Ignoring invalid fontStyle for scope "${scope}": ${String(fontStyle)}`);
+    }
+
+    if (style.foreground === undefined && style.fontStyle === undefined) { skipped++; continue; }
+    rules[scope] = style;
+  }
+
+  return { rules, skipped };
+}
+
+/** type[.modifier…][:language], where type may be "*" */
+const SEMANTIC_SELECTOR_RE = /^(\*|[A-Za-z][\w-]*)(\.[A-Za-z][\w-]*)*(:[A-Za-z][\w-]*)?$/;
+
+const SEMANTIC_FLAGS = ["bold", "italic", "underline", "strikethrough"] as const;
+
+/**
+ * Validates the "_semanticTokenColors" section. Each entry is either a hex
+ * string (foreground only) or a SemanticTokenStyle object.
+ */
+function extractSemanticTokenColors(section: unknown): { rules: SemanticTokenColorMap; skipped: number } {
+  const rules: SemanticTokenColorMap = {};
+  let skipped = 0;
+
+  if (section === undefined) return { rules, skipped };
+  if (typeof section !== "object" || section === null || Array.isArray(section)) {
+    logger.debug(`Skipping "_semanticTokenColors": expected an object of selector → style.`);
+    return { rules, skipped: 1 };
+  }
+
+  for (const [selector, value] of Object.entries(section as Record<string, unknown>)) {
+    if (!SEMANTIC_SELECTOR_RE.test(selector)) {
+      logger.debug(`Skipping invalid semantic token selector "${selector}"`);
+      skipped++;
+      continue;
+    }
+
+    if (typeof value === "string") {
+      const color = toColor(value);
+      if (!color.ok) {
+        logger.debug(`Skipping semantic color for "${selector}": ${color.reason}`);
+        skipped++;
+        continue;
+      }
+      rules[selector] = { foreground: color.hex };
+      continue;
+    }
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) { skipped++; continue; }
+
+    const raw = value as Record<string, unknown>;
+    const style: SemanticTokenStyle = {};
+    if (raw.foreground !== undefined) {
+      const color = toColor(raw.foreground);
+      if (color.ok) style.foreground = color.hex;
+      else logger.debug(`Ignoring invalid foreground for semantic selector "${selector}": ${color.reason}`);
+    }
+    if (typeof raw.fontStyle === "string" && FONT_STYLE_RE.test(raw.fontStyle)) {
+      style.fontStyle = raw.fontStyle.trim().replace(/\s+/g, " ");
+    }
+    for (const flag of SEMANTIC_FLAGS) {
+      if (typeof raw[flag] === "boolean") style[flag] = raw[flag] as boolean;
+    }
+
+    if (Object.keys(style).length === 0) { skipped++; continue; }
+    rules[selector] = style;
+  }
+
+  return { rules, skipped };
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Detects matugen's raw scheme output and extracts the roles for `mode`.
+ * Two layouts exist across matugen versions:
+ *
+ *   { "colors": { "primary": { "dark": "#…", "light": "#…" }, … } }
+ *   { "colors": { "dark": { "primary": "#…", … }, "light": { … } } }
+ *
+ * Returns undefined when `parsed` is not a raw scheme.
+ */
+function extractRoleScheme(parsed: Record<string, unknown>, mode: SchemeMode): RoleScheme | undefined {
+  const colors = parsed["colors"];
+  if (!isPlainObject(colors)) return undefined;
+
+  const scheme: RoleScheme = {};
+
+  if (isPlainObject(colors["dark"]) && isPlainObject(colors["light"])) {
+    for (const [role, value] of Object.entries(colors[mode] as Record<string, unknown>)) {
+      const color = toColor(value);
+      if (color.ok) scheme[role] = color.hex;
+    }
+  } else {
+    for (const [role, variants] of Object.entries(colors)) {
+      if (!isPlainObject(variants)) continue;
+      const color = toColor(variants[mode] ?? variants["default"]);
+      if (color.ok) scheme[role] = color.hex;
+    }
+  }
+
+  return Object.keys(scheme).length > 0 ? scheme : undefined;
+}
+
+/** Order in which variant blocks are tried when the requested one is missing */
+const VARIANT_FALLBACKS: Record<PaletteVariant, PaletteVariant[]> = {
+  dark: ["dark", "highContrast", "light", "highContrastLight"],
+  light: ["light", "highContrastLight", "dark", "highContrast"],
+  highContrast: ["highContrast", "dark", "highContrastLight", "light"],
+  highContrastLight: ["highContrastLight", "light", "highContrast", "dark"],
+};
+
+/**
+ * Reduces a multi-variant file to a single-variant one: the chosen block
+ * is merged over the shared top-level entries, with "_meta" merged key by
+ * key. Files without variant blocks are returned unchanged.
+ */
+function selectVariant(parsed: PaletteFile, wanted: PaletteVariant): PaletteFile {
+  const present = PALETTE_VARIANTS.filter((v) => isPlainObject(parsed[v]));
+  if (present.length === 0) return parsed;
+
+  const chosen = VARIANT_FALLBACKS[wanted].find((v) => present.includes(v))!;
+  if (chosen !== wanted) {
+    logger.debug(`Palette has no "${wanted}" variant — using "${chosen}".`);
+  }
+
+  const shared: PaletteFile = { ...parsed };
+  for (const v of PALETTE_VARIANTS) delete shared[v];
+
+  const block = parsed[chosen] as PaletteFile;
+  return {
+    ...shared,
+    ...block,
+    _meta: { variant: chosen, ...shared._meta, ...block._meta },
+  };
 }
 
 /**
@@ -43,7 +268,7 @@ export function resolvePalettePath(customPath: string | undefined): string {
  * Synchronously reads and parses the palette file.
  * Returns a PaletteReadResult discriminated union — never throws.
  */
-export function readPalette(filePath: string): PaletteReadResult {
+export function readPalette(filePath: string, options: PaletteReadOptions = {}): PaletteReadResult {
   // ── existence check ──────────────────────────────────────────────
   if (!fs.existsSync(filePath)) {
     return { ok: false, error: `Palette file not found: ${filePath}` };
@@ -57,6 +282,20 @@ export function readPalette(filePath: string): PaletteReadResult {
     return { ok: false, error: `Cannot read palette file: ${(e as Error).message}` };
   }
 
+  return parsePalette(raw, options, filePath);
+}
+
+/**
+ * Parses palette text that did not come from the watched file — a pushed
+ * payload, say — exactly as readPalette() would parse it from disk.
+ * `fileName` only feeds format detection ("colors.json", "scheme.yaml").
+ * Never throws.
+ */
+export function parsePalette(raw: string, options: PaletteReadOptions = {}, fileName = "palette.json"): PaletteReadResult {
+  // ── other scheme formats ────────────────────────────────────────
+  const importer = selectImporter(fileName, raw, options.format ?? "auto");
+  if (importer) return importPalette(importer, raw, options.roleOverrides);
+
   // ── parse ─────────────────────────────────────────────────────────
   let parsed: PaletteFile;
   try {
@@ -69,26 +308,85 @@ export function readPalette(filePath: string): PaletteReadResult {
     return { ok: false, error: "Palette JSON must be a plain object at root level." };
   }
 
+  // ── matugen raw scheme ───────────────────────────────────────────
+  const variant = options.variant ?? "dark";
+  const mode: SchemeMode = variant === "light" || variant === "highContrastLight" ? "light" : "dark";
+  const scheme = extractRoleScheme(parsed, mode);
+  if (scheme) {
+    const mapped = mapRoleScheme(scheme, options.roleOverrides);
+    if (mapped.missingRoles.length > 0) {
+      logger.debug(`Scheme is missing role(s): ${mapped.missingRoles.join(", ")}`);
+    }
+    if (Object.keys(mapped.colors).length === 0) {
+      return { ok: false, error: "matugen scheme did not map to any VS Code color tokens." };
+    }
+    logger.debug(
+      `matugen ${mode} scheme loaded: ${Object.keys(scheme).length} role(s) → ` +
+      `${Object.keys(mapped.colors).length} token(s).`
+    );
+    return {
+      ok: true,
+      colors: mapped.colors,
+      tokenColors: mapped.tokenColors,
+      semanticTokenColors: mapped.semanticTokenColors,
+      meta: { source: "matugen", variant: mode },
+    };
+  }
+
+  // ── pick variant block ───────────────────────────────────────────
+  parsed = selectVariant(parsed, variant);
+
+  // ── evaluate expressions ─────────────────────────────────────────
+  const resolved = resolveExpressions(parsed);
+  for (const err of resolved.errors) {
+    logger.error(err);
+  }
+  parsed = resolved.palette;
+
   // ── extract valid color tokens ────────────────────────────────────
   const colors: ColorMap = {};
-  let skipped = 0;
+  let skipped = resolved.errors.length;
 
   for (const [key, value] of Object.entries(parsed)) {
     if (!isColorToken(key)) continue;
-    if (typeof value !== "string") { skipped++; continue; }
-    if (!isHex(value)) {
-      logger.debug(`Skipping non-hex value for token "${key}": ${value}`);
+    if (!isKnownColor(key)) {
+      const suggestions = suggestColors(key);
+      if (suggestions.length > 0) {
+        logger.info(`Skipping unknown color token "${key}" — did you mean "${suggestions[0]}"?`);
+        skipped++;
+        continue;
+      }
+      logger.debug(`"${key}" is not a built-in color — assuming an extension contributes it.`);
+    }
+    const color = toColor(value);
+    if (!color.ok) {
+      logger.debug(`Skipping token "${key}": ${color.reason}`);
       skipped++;
       continue;
     }
-    colors[key] = value;
+    colors[key] = color.hex;
   }
 
+  const tokenColors = extractTokenColors(parsed._tokenColors);
+  const semanticTokenColors = extractSemanticTokenColors(parsed._semanticTokenColors);
+
   const count = Object.keys(colors).length;
-  if (count === 0) {
+  const ruleCount = Object.keys(tokenColors.rules).length;
+  const semanticCount = Object.keys(semanticTokenColors.rules).length;
+  if (count === 0 && ruleCount === 0 && semanticCount === 0) {
     return { ok: false, error: "Palette file contained no valid VS Code color tokens." };
   }
 
-  logger.debug(`Palette loaded: ${count} token(s) applied, ${skipped} skipped.`);
-  return { ok: true, colors };
+  logger.debug(
+    `Palette loaded: ${count} token(s) applied, ${skipped} skipped; ` +
+    `${ruleCount} token color rule(s), ${tokenColors.skipped} skipped; ` +
+    `${semanticCount} semantic rule(s), ${semanticTokenColors.skipped} skipped.`
+  );
+  return {
+    ok: true,
+    colors,
+    tokenColors: tokenColors.rules,
+    semanticTokenColors: semanticTokenColors.rules,
+    meta: isPlainObject(parsed._meta) ? (parsed._meta as PaletteMeta) : {},
+  };
 }
@@ -0,0 +1,537 @@
+// src/engine/roleMapping.ts
+// Built-in mapping from Material You color roles (as emitted by
+// `matugen image … --json hex`) to VS Code color tokens.
+//
+// This lets the bridge consume matugen's raw scheme directly, without a
+// hand-maintained template. Individual assignments can be overridden via
+// the `matugenBridge.roleOverrides` setting.
+//
+// A binding is a role name, optionally followed by "/AA" to append a
+// two-digit hex alpha:  "tertiary_container/40" → "#rrggbb40"
+
+import type {
+  ColorMap,
+  RoleScheme,
+  SemanticTokenColorMap,
+  SemanticTokenStyle,
+  TokenColorMap,
+} from "../types";
+
+const BINDING_RE = /^([a-z][a-z0-9_]*)(?:\/([0-9a-fA-F]{2}))?$/;
+
+/** Token → role binding. Mirrors resources/vscode-palette.example.json. */
+export const DEFAULT_ROLE_MAP: Readonly<Record<string, string>> = {
+  "editor.background": "surface",
+  "editor.foreground": "on_surface",
+  "editorLineNumber.foreground": "on_surface_variant",
+  "editorLineNumber.activeForeground": "primary",
+  "editorCursor.foreground": "primary",
+  "editor.selectionBackground": "surface_container_highest",
+  "editor.inactiveSelectionBackground": "surface_container_high",
+  "editor.lineHighlightBackground": "surface_container_low",
+  "editor.findMatchBackground": "tertiary_container/80",
+  "editor.findMatchHighlightBackground": "tertiary_container/40",
+  "editor.wordHighlightBackground": "secondary_container/40",
+  "editor.wordHighlightStrongBackground": "secondary_container/60",
+  "editor.hoverHighlightBackground": "surface_container_high",
+
+  "editorWidget.background": "surface_container_low",
+  "editorWidget.border": "outline_variant",
+  "editorWidget.foreground": "on_surface",
+  "editorSuggestWidget.background": "surface_container_low",
+  "editorSuggestWidget.border": "outline_variant",
+  "editorSuggestWidget.foreground": "on_surface",
+  "editorSuggestWidget.selectedBackground": "surface_container_highest",
+  "editorSuggestWidget.selectedForeground": "on_surface",
+  "editorSuggestWidget.highlightForeground": "primary",
+  "editorHoverWidget.background": "surface_container_low",
+  "editorHoverWidget.border": "outline_variant",
+  "editorHoverWidget.foreground": "on_surface",
+  "editorHoverWidget.statusBarBackground": "surface_container",
+
+  "activityBar.background": "surface_container_lowest",
+  "activityBar.foreground": "on_surface",
+  "activityBar.inactiveForeground": "on_surface_variant",
+  "activityBar.border": "outline_variant",
+  "activityBarBadge.background": "primary",
+  "activityBarBadge.foreground": "on_primary",
+  "activityBar.activeBorder": "primary",
+  "activityBar.activeBackground": "surface_container",
+  "activityBar.activeFocusBorder": "primary",
+
+  "sideBar.background": "surface_container_lowest",
+  "sideBar.foreground": "on_surface",
+  "sideBar.border": "outline_variant",
+  "sideBarTitle.foreground": "on_surface",
+  "sideBarSectionHeader.background": "surface_container_low",
+  "sideBarSectionHeader.foreground": "on_surface",
+  "sideBarSectionHeader.border": "outline_variant",
+
+  "statusBar.background": "surface_container_lowest",
+  "statusBar.foreground": "on_surface",
+  "statusBar.border": "outline_variant",
+  "statusBar.noFolderBackground": "surface_container_lowest",
+  "statusBar.noFolderForeground": "on_surface",
+  "statusBar.debuggingBackground": "error",
+  "statusBar.debuggingForeground": "on_error",
+  "statusBarItem.hoverBackground": "surface_container_high",
+  "statusBarItem.hoverForeground": "on_surface",
+  "statusBarItem.remoteBackground": "primary",
+  "statusBarItem.remoteForeground": "on_primary",
+  "statusBarItem.errorBackground": "error",
+  "statusBarItem.errorForeground": "on_error",
+  "statusBarItem.warningBackground": "tertiary",
+  "statusBarItem.warningForeground": "on_tertiary",
+  "statusBarItem.prominentBackground": "primary",
+  "statusBarItem.prominentForeground": "on_primary",
+
+  "titleBar.activeBackground": "surface_container_lowest",
+  "titleBar.activeForeground": "on_surface",
+  "titleBar.inactiveBackground": "surface_container_lowest",
+  "titleBar.inactiveForeground": "on_surface_variant",
+  "titleBar.border": "outline_variant",
+
+  "tab.activeBackground": "surface",
+  "tab.activeForeground": "on_surface",
+  "tab.inactiveBackground": "surface_container_lowest",
+  "tab.inactiveForeground": "on_surface_variant",
+  "tab.border": "outline_variant",
+  "tab.activeBorder": "primary",
+  "tab.activeBorderTop": "primary",
+  "tab.unfocusedActiveBorder": "on_surface_variant",
+  "tab.unfocusedActiveForeground": "on_surface",
+  "tab.unfocusedInactiveForeground": "on_surface_variant",
+  "tab.hoverBackground": "surface_container",
+  "tab.hoverForeground": "on_surface",
+  "tab.unfocusedHoverBackground": "surface_container_low",
+  "tab.unfocusedHoverForeground": "on_surface",
+  "editorGroupHeader.tabsBackground": "surface_container_lowest",
+  "editorGroupHeader.tabsBorder": "outline_variant",
+  "editorGroupHeader.border": "outline_variant",
+  "editorGroupHeader.noTabsBackground": "surface_container_lowest",
+
+  "panel.background": "surface_container_lowest",
+  "panel.border": "outline_variant",
+  "panelTitle.activeBorder": "primary",
+  "panelTitle.activeForeground": "on_surface",
+  "panelTitle.inactiveForeground": "on_surface_variant",
+  "panelSection.border": "outline_variant",
+  "panelSectionHeader.background": "surface_container_low",
+  "panelSectionHeader.foreground": "on_surface",
+
+  "terminal.background": "surface",
+  "terminal.foreground": "on_surface",
+  "terminal.border": "outline_variant",
+  "terminalCursor.foreground": "primary",
+  "terminalCursor.background": "on_primary",
+
+  "button.background": "primary",
+  "button.foreground": "on_primary",
+  "button.hoverBackground": "primary_container",
+  "button.secondaryBackground": "secondary_container",
+  "button.secondaryForeground": "on_secondary_container",
+  "button.secondaryHoverBackground": "secondary",
+  "button.border": "outline",
+
+  "input.background": "surface_container_high",
+  "input.border": "outline",
+  "input.foreground": "on_surface",
+  "input.placeholderForeground": "on_surface_variant",
+  "inputOption.activeBorder": "primary",
+  "inputOption.activeBackground": "primary_container/40",
+  "inputOption.activeForeground": "on_primary_container",
+  "inputValidation.errorBackground": "error_container",
+  "inputValidation.errorBorder": "error",
+  "inputValidation.errorForeground": "on_error_container",
+  "inputValidation.warningBackground": "tertiary_container",
+  "inputValidation.warningBorder": "tertiary",
+  "inputValidation.warningForeground": "on_tertiary_container",
+  "inputValidation.infoBackground": "primary_container",
+  "inputValidation.infoBorder": "primary",
+  "inputValidation.infoForeground": "on_primary_container",
+
+  "focusBorder": "primary",
+  "selection.background": "primary/60",
+  "foreground": "on_surface",
+  "descriptionForeground": "on_surface_variant",
+  "errorForeground": "error",
+  "icon.foreground": "on_surface_variant",
+
+  "scrollbar.shadow": "shadow",
+  "scrollbarSlider.background": "on_surface_variant/40",
+  "scrollbarSlider.hoverBackground": "on_surface_variant/60",
+  "scrollbarSlider.activeBackground": "on_surface_variant/80",
+
+  "list.activeSelectionBackground": "surface_container_highest",
+  "list.activeSelectionForeground": "on_surface",
+  "list.inactiveSelectionBackground": "surface_container_high",
+  "list.inactiveSelectionForeground": "on_surface",
+  "list.hoverBackground": "surface_container_high",
+  "list.hoverForeground": "on_surface",
+  "list.focusBackground": "surface_container_highest",
+  "list.focusForeground": "on_surface",
+  "list.focusAndSelectionOutline": "primary",
+  "list.highlightForeground": "primary",
+  "list.invalidItemForeground": "error",
+  "list.errorForeground": "error",
+  "list.warningForeground": "tertiary",
+  "listFilterWidget.background": "surface_container_high",
+  "listFilterWidget.outline": "primary",
+  "listFilterWidget.noMatchesOutline": "error",
+  "list.filterMatchBackground": "primary_container/60",
+  "list.filterMatchBorder": "primary",
+  "list.deemphasizedForeground": "on_surface_variant",
+
+  "tree.indentGuidesStroke": "outline_variant",
+  "tree.inactiveIndentGuidesStroke": "outline_variant/80",
+
+  "badge.background": "primary",
+  "badge.foreground": "on_primary",
+
+  "progressBar.background": "primary",
+
+  "notifications.background": "surface_container_low",
+  "notifications.foreground": "on_surface",
+  "notifications.border": "outline_variant",
+  "notificationCenter.border": "outline_variant",
+  "notificationCenterHeader.background": "surface_container",
+  "notificationCenterHeader.foreground": "on_surface",
+  "notificationToast.border": "outline_variant",
+  "notificationLink.foreground": "primary",
+  "notificationsErrorIcon.foreground": "error",
+  "notificationsWarningIcon.foreground": "tertiary",
+  "notificationsInfoIcon.foreground": "primary",
+
+  "quickInput.background": "surface_container_low",
+  "quickInput.foreground": "on_surface",
+  "quickInputList.focusBackground": "surface_container_highest",
+  "quickInputList.focusForeground": "on_surface",
+  "quickInputList.focusIconForeground": "primary",
+  "quickInputTitle.background": "surface_container",
+
+  "pickerGroup.foreground": "primary",
+  "pickerGroup.border": "outline_variant",
+
+  "dropdown.background": "surface_container_high",
+  "dropdown.border": "outline",
+  "dropdown.foreground": "on_surface",
+  "dropdown.listBackground": "surface_container",
+
+  "checkbox.background": "surface_container_high",
+  "checkbox.border": "outline",
+  "checkbox.foreground": "on_surface",
+
+  "breadcrumb.background": "surface",
+  "breadcrumb.foreground": "on_surface_variant",
+  "breadcrumb.focusForeground": "on_surface",
+  "breadcrumb.activeSelectionForeground": "primary",
+  "breadcrumbPicker.background": "surface_container_low",
+
+  "menu.background": "surface_container_low",
+  "menu.foreground": "on_surface",
+  "menu.selectionBackground": "surface_container_highest",
+  "menu.selectionForeground": "on_surface",
+  "menu.selectionBorder": "primary",
+  "menu.separatorBackground": "outline_variant",
+  "menu.border": "outline_variant",
+  "menubar.selectionBackground": "surface_container_high",
+  "menubar.selectionForeground": "on_surface",
+
+  "gitDecoration.addedResourceForeground": "tertiary",
+  "gitDecoration.modifiedResourceForeground": "primary",
+  "gitDecoration.deletedResourceForeground": "error",
+  "gitDecoration.renamedResourceForeground": "primary",
+  "gitDecoration.untrackedResourceForeground": "tertiary",
+  "gitDecoration.ignoredResourceForeground": "outline",
+  "gitDecoration.conflictingResourceForeground": "tertiary_container",
+  "gitDecoration.submoduleResourceForeground": "primary_container",
+  "gitDecoration.stageModifiedResourceForeground": "primary",
+  "gitDecoration.stageDeletedResourceForeground": "error",
+
+  "diffEditor.insertedTextBackground": "tertiary_container/20",
+  "diffEditor.removedTextBackground": "error_container/20",
+  "diffEditor.insertedLineBackground": "tertiary_container/10",
+  "diffEditor.removedLineBackground": "error_container/10",
+  "diffEditor.border": "outline_variant",
+  "diffEditor.diagonalFill": "outline_variant/40",
+
+  "merge.currentHeaderBackground": "primary_container/80",
+  "merge.currentContentBackground": "primary_container/40",
+  "merge.incomingHeaderBackground": "secondary_container/80",
+  "merge.incomingContentBackground": "secondary_container/40",
+  "merge.border": "outline",
+  "merge.commonContentBackground": "surface_container_high",
+  "merge.commonHeaderBackground": "surface_container_highest",
+
+  "editorOverviewRuler.border": "outline_variant",
+  "editorOverviewRuler.modifiedForeground": "primary/80",
+  "editorOverviewRuler.addedForeground": "tertiary/80",
+  "editorOverviewRuler.deletedForeground": "error/80",
+  "editorOverviewRuler.errorForeground": "error",
+  "editorOverviewRuler.warningForeground": "tertiary",
+  "editorOverviewRuler.infoForeground": "primary",
+  "editorOverviewRuler.bracketMatchForeground": "on_surface_variant",
+  "editorOverviewRuler.findMatchForeground": "tertiary_container",
+  "editorOverviewRuler.currentContentForeground": "primary_container",
+  "editorOverviewRuler.incomingContentForeground": "secondary_container",
+
+  "editorError.foreground": "error",
+  "editorWarning.foreground": "tertiary",
+  "editorInfo.foreground": "primary",
+  "editorHint.foreground": "on_surface_variant",
+
+  "editorGutter.modifiedBackground": "primary",
+  "editorGutter.addedBackground": "tertiary",
+  "editorGutter.deletedBackground": "error",
+  "editorGutter.commentRangeForeground": "on_surface_variant",
+
+  "editorBracketMatch.background": "surface_container_high",
+  "editorBracketMatch.border": "outline",
+
+  "editorCodeLens.foreground": "on_surface_variant",
+
+  "editorLightBulb.foreground": "tertiary",
+  "editorLightBulbAutoFix.foreground": "primary",
+
+  "peekView.border": "primary",
+  "peekViewEditor.background": "surface_container_low",
+  "peekViewEditor.matchHighlightBackground": "tertiary_container/60",
+  "peekViewResult.background": "surface_container_lowest",
+  "peekViewResult.fileForeground": "on_surface",
+  "peekViewResult.lineForeground": "on_surface_variant",
+  "peekViewResult.matchHighlightBackground": "tertiary_container/60",
+  "peekViewResult.selectionBackground": "surface_container_highest",
+  "peekViewResult.selectionForeground": "on_surface",
+  "peekViewTitle.background": "surface_container",
+  "peekViewTitleDescription.foreground": "on_surface_variant",
+  "peekViewTitleLabel.foreground": "on_surface",
+
+  "minimap.findMatchHighlight": "tertiary_container",
+  "minimap.selectionHighlight": "primary/60",
+  "minimap.errorHighlight": "error/80",
+  "minimap.warningHighlight": "tertiary/80",
+  "minimapGutter.addedBackground": "tertiary",
+  "minimapGutter.modifiedBackground": "primary",
+  "minimapGutter.deletedBackground": "error",
+
+  "editorInlayHint.background": "surface_container_high/cc",
+  "editorInlayHint.foreground": "on_surface_variant",
+  "editorInlayHint.typeBackground": "surface_container_high/cc",
+  "editorInlayHint.typeForeground": "on_surface_variant",
+  "editorInlayHint.parameterBackground": "surface_container_high/cc",
+  "editorInlayHint.parameterForeground": "on_surface_variant",
+
+  "editorStickyScroll.background": "surface",
+  "editorStickyScrollHover.background": "surface_container_low",
+
+  "settings.headerForeground": "on_surface",
+  "settings.modifiedItemIndicator": "primary",
+  "settings.dropdownBackground": "surface_container_high",
+  "settings.dropdownBorder": "outline",
+  "settings.dropdownForeground": "on_surface",
+  "settings.dropdownListBorder": "outline_variant",
+  "settings.textInputBackground": "surface_container_high",
+  "settings.textInputBorder": "outline",
+  "settings.textInputForeground": "on_surface",
+  "settings.numberInputBackground": "surface_container_high",
+  "settings.numberInputBorder": "outline",
+  "settings.numberInputForeground": "on_surface",
+  "settings.checkboxBackground": "surface_container_high",
+  "settings.checkboxBorder": "outline",
+  "settings.checkboxForeground": "on_surface",
+
+  "welcomePage.tileBackground": "surface_container_low",
+  "welcomePage.tileHoverBackground": "surface_container",
+  "welcomePage.tileBorder": "outline_variant",
+  "welcomePage.progress.background": "surface_container_high",
+  "welcomePage.progress.foreground": "primary",
+
+  "walkThrough.embeddedEditorBackground": "surface_container_low",
+
+  "debugToolBar.background": "surface_container",
+  "debugToolBar.border": "outline_variant",
+  "debugIcon.breakpointForeground": "error",
+  "debugIcon.breakpointDisabledForeground": "outline",
+  "debugIcon.startForeground": "tertiary",
+  "debugIcon.pauseForeground": "primary",
+  "debugIcon.stopForeground": "error",
+  "debugIcon.restartForeground": "tertiary",
+  "debugIcon.stepOverForeground": "primary",
+  "debugIcon.stepIntoForeground": "primary",
+  "debugIcon.stepOutForeground": "primary",
+  "debugIcon.continueForeground": "tertiary",
+  "debugConsole.infoForeground": "primary",
+  "debugConsole.warningForeground": "tertiary",
+  "debugConsole.errorForeground": "error",
+  "debugConsole.sourceForeground": "on_surface_variant",
+  "debugConsoleInputIcon.foreground": "on_surface",
+
+  "testing.iconFailed": "error",
+  "testing.iconPassed": "tertiary",
+  "testing.iconQueued": "on_surface_variant",
+  "testing.iconUnset": "outline",
+  "testing.iconSkipped": "outline",
+  "testing.peekBorder": "error",
+  "testing.message.error.decorationForeground": "error",
+  "testing.message.error.lineBackground": "error_container/20",
+  "testing.message.info.decorationForeground": "primary",
+  "testing.message.info.lineBackground": "primary_container/20",
+
+  "extensionButton.prominentBackground": "primary",
+  "extensionButton.prominentForeground": "on_primary",
+  "extensionButton.prominentHoverBackground": "primary_container",
+  "extensionBadge.remoteBackground": "primary",
+  "extensionBadge.remoteForeground": "on_primary",
+  "extensionIcon.starForeground": "tertiary",
+  "extensionIcon.verifiedForeground": "primary",
+  "extensionIcon.preReleaseForeground": "tertiary_container",
+  "extensionIcon.sponsorForeground": "secondary",
+
+  "symbolIcon.arrayForeground": "on_surface",
+  "symbolIcon.booleanForeground": "primary",
+  "symbolIcon.classForeground": "tertiary",
+  "symbolIcon.colorForeground": "primary_container",
+  "symbolIcon.constantForeground": "secondary",
+  "symbolIcon.constructorForeground": "tertiary",
+  "symbolIcon.enumeratorForeground": "tertiary_container",
+  "symbolIcon.enumeratorMemberForeground": "secondary_container",
+  "symbolIcon.eventForeground": "tertiary",
+  "symbolIcon.fieldForeground": "primary_container",
+  "symbolIcon.fileForeground": "on_surface_variant",
+  "symbolIcon.folderForeground": "on_surface_variant",
+  "symbolIcon.functionForeground": "primary",
+  "symbolIcon.interfaceForeground": "primary_container",
+  "symbolIcon.keyForeground": "primary",
+  "symbolIcon.keywordForeground": "secondary",
+  "symbolIcon.methodForeground": "primary",
+  "symbolIcon.moduleForeground": "tertiary_container",
+  "symbolIcon.namespaceForeground": "secondary_container",
+  "symbolIcon.nullForeground": "outline",
+  "symbolIcon.numberForeground": "secondary",
+  "symbolIcon.objectForeground": "on_surface",
+  "symbolIcon.operatorForeground": "primary_container",
+  "symbolIcon.packageForeground": "tertiary",
+  "symbolIcon.propertyForeground": "primary_container",
+  "symbolIcon.referenceForeground": "primary",
+  "symbolIcon.snippetForeground": "secondary_container",
+  "symbolIcon.stringForeground": "tertiary",
+  "symbolIcon.structForeground": "tertiary_container",
+  "symbolIcon.textForeground": "on_surface",
+  "symbolIcon.typeParameterForeground": "secondary_container",
+  "symbolIcon.unitForeground": "secondary",
+  "symbolIcon.variableForeground": "on_surface",
+
+  "charts.foreground": "on_surface",
+  "charts.lines": "outline_variant",
+  "charts.red": "error",
+  "charts.blue": "primary",
+  "charts.yellow": "tertiary_container",
+  "charts.orange": "tertiary",
+  "charts.green": "tertiary",
+  "charts.purple": "secondary",
+};
+
+/** TextMate scope → role binding (+ optional fontStyle) */
+const DEFAULT_TOKEN_COLOR_ROLES: Readonly<Record<string, { role: string; fontStyle?: string }>> = {
+  "comment, punctuation.definition.comment": { role: "outline", fontStyle: "italic" },
+  "string, string.quoted": { role: "tertiary" },
+  "constant.numeric, constant.language": { role: "secondary" },
+  "keyword, storage.type, storage.modifier": { role: "primary", fontStyle: "italic" },
+  "entity.name.function, support.function": { role: "primary_fixed_dim" },
+  "entity.name.class, entity.name.type, support.class": { role: "tertiary_fixed_dim" },
+  "variable, variable.other": { role: "on_surface" },
+  "variable.parameter": { role: "secondary", fontStyle: "italic" },
+  "entity.name.tag": { role: "error" },
+  "entity.other.attribute-name": { role: "secondary" },
+  "punctuation, meta.brace": { role: "on_surface_variant" },
+  "keyword.operator": { role: "primary_fixed" },
+  "markup.heading": { role: "primary", fontStyle: "bold" },
+  "markup.underline.link": { role: "primary", fontStyle: "underline" },
+};
+
+/** Semantic selector → role binding (+ optional style flags) */
+const DEFAULT_SEMANTIC_ROLES: Readonly<Record<string, { role?: string } & Omit<SemanticTokenStyle, "foreground">>> = {
+  "function.declaration": { role: "primary_fixed_dim", bold: true },
+  "method": { role: "primary_fixed_dim" },
+  "class": { role: "tertiary_fixed_dim" },
+  "interface": { role: "tertiary_fixed_dim", italic: true },
+  "enumMember": { role: "secondary" },
+  "parameter": { role: "secondary" },
+  "property": { role: "on_surface" },
+  "variable.readonly": { role: "secondary_fixed" },
+  "*.deprecated": { strikethrough: true },
+};
+
+export function isValidBinding(binding: string): boolean {
+  return BINDING_RE.test(binding);
+}
+
+/**
+ * Resolves a binding against `scheme`. Returns undefined when the role is
+ * missing from the scheme (older matugen versions lack some roles).
+ */
+function resolveBinding(binding: string, scheme: RoleScheme): string | undefined {
+  const m = BINDING_RE.exec(binding);
+  if (!m) return undefined;
+
+  const hex = scheme[m[1]];
+  if (hex === undefined) return undefined;
+
+  // Drop any alpha already present in the role color before appending ours
+  const alpha = m[2];
+  return alpha ? hex.slice(0, 7) + alpha.toLowerCase() : hex;
+}
+
+/**
+ * Turns a role scheme into VS Code colors using DEFAULT_ROLE_MAP with
+ * `overrides` (token → binding) layered on top. An override of "" removes
+ * the token entirely.
+ *
+ * Tokens whose role is missing from the scheme are skipped; the missing
+ * role names are returned so the caller can log them.
+ */
+export function mapRoleScheme(
+  scheme: RoleScheme,
+  overrides: Record<string, string> = {}
+): {
+  colors: ColorMap;
+  tokenColors: TokenColorMap;
+  semanticTokenColors: SemanticTokenColorMap;
+  missingRoles: string[];
+} {
+  const missing = new Set<string>();
+  const resolve = (binding: string): string | undefined => {
+    const hex = resolveBinding(binding, scheme);
+    if (hex === undefined) missing.add(binding.split("/")[0]);
+    return hex;
+  };
+
+  const bindings: Record<string, string> = { ...DEFAULT_ROLE_MAP, ...overrides };
+
+  const colors: ColorMap = {};
+  for (const [token, binding] of Object.entries(bindings)) {
+    if (binding === "") continue;
+    const hex = resolve(binding);
+    if (hex !== undefined) colors[token] = hex;
+  }
+
+  const tokenColors: TokenColorMap = {};
+  for (const [scope, { role, fontStyle }] of Object.entries(DEFAULT_TOKEN_COLOR_ROLES)) {
+    const hex = resolve(role);
+    if (hex === undefined) continue;
+    tokenColors[scope] = fontStyle !== undefined ? { foreground: hex, fontStyle } : { foreground: hex };
+  }
+
+  const semanticTokenColors: SemanticTokenColorMap = {};
+  for (const [selector, { role, ...flags }] of Object.entries(DEFAULT_SEMANTIC_ROLES)) {
+    const style: SemanticTokenStyle = { ...flags };
+    if (role !== undefined) {
+      const hex = resolve(role);
+      if (hex === undefined) continue;
+      style.foreground = hex;
+    }
+    semanticTokenColors[selector] = style;
+  }
+
+  return { colors, tokenColors, semanticTokenColors, missingRoles: [...missing].sort() };
+}
@@ -0,0 +1,161 @@
+// src/engine/themeExport.ts
+// Freezes the live palette into a standalone color theme.
+//
+// The theme is the contributed base theme (matugen-dark-base.json or
+// matugen-light-base.json) with everything the bridge currently manages
+// laid over it:
+//   - colors:              base colors, then our workbench colors
+//   - tokenColors:         base rules, then our TextMate rules — later
+//                          rules win at equal specificity, as our
+//                          customizations do over the base theme
+//   - semanticTokenColors: our semantic rules
+//
+// Optionally a minimal extension package.json is written next to it, so
+// the folder can be handed to `vsce package` as-is. Building and writing
+// are separate steps so the caller can ask before overwriting.
+
+import * as fs from "fs";
+import * as path from "path";
+import type { ParsedPalette, SchemeMode, TextMateRule } from "../types";
+
+export interface ThemeExportOptions {
+  /** Theme label, e.g. "Dune Sunset" */
+  name: string;
+  kind: SchemeMode;
+  /** Folder the files go into */
+  outputDir: string;
+  /** Also write an extension package.json and put the theme under themes/ */
+  scaffold: boolean;
+}
+
+export interface ThemeExportFile {
+  path: string;
+  content: string;
+}
+
+export type ThemeExportResult =
+  | { ok: true; files: ThemeExportFile[] }
+  | { ok: false; error: string };
+
+/** Engine range written into the scaffold — the same as ours */
+const ENGINE_RANGE = "^1.75.0";
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** "Dune Sunset!" → "dune-sunset"; used for file and package names */
+export function themeSlug(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "matugen-theme";
+}
+
+function readBaseTheme(baseThemePath: string): { ok: true; theme: Record<string, unknown> } | { ok: false; error: string } {
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(baseThemePath, "utf8"));
+    if (!isPlainObject(parsed)) return { ok: false, error: `Base theme ${baseThemePath} is not a JSON object.` };
+    return { ok: true, theme: parsed };
+  } catch (e) {
+    return { ok: false, error: `Cannot read base theme ${baseThemePath}: ${(e as Error).message}` };
+  }
+}
+
+/** The complete theme JSON for `palette` over `base` */
+function buildTheme(base: Record<string, unknown>, palette: ParsedPalette, options: ThemeExportOptions): Record<string, unknown> {
+  const baseColors = isPlainObject(base.colors) ? base.colors : {};
+  const baseRules = Array.isArray(base.tokenColors) ? (base.tokenColors as TextMateRule[]) : [];
+  const ourRules: TextMateRule[] = Object.entries(palette.tokenColors).map(([scope, settings]) => ({
+    scope,
+    settings: { ...settings },
+  }));
+
+  const theme: Record<string, unknown> = {
+    name: options.name,
+    type: options.kind,
+    $schema: "vscode://schemas/color-theme",
+    semanticHighlighting: true,
+    colors: { ...baseColors, ...palette.colors },
+    tokenColors: [...baseRules, ...ourRules],
+  };
+  if (Object.keys(palette.semanticTokenColors).length > 0) {
+    theme.semanticTokenColors = { ...palette.semanticTokenColors };
+  }
+  return theme;
+}
+
+function buildManifest(slug: string, themeFile: string, options: ThemeExportOptions): Record<string, unknown> {
+  return {
+    name: slug,
+    displayName: options.name,
+    description: `${options.name} — a color theme exported from Matugen Theme Bridge`,
+    version: "0.0.1",
+    publisher: "local",
+    engines: { vscode: ENGINE_RANGE },
+    categories: ["Themes"],
+    contributes: {
+      themes: [
+        {
+          label: options.name,
+          uiTheme: options.kind === "light" ? "vs" : "vs-dark",
+          path: `./${themeFile}`,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Builds the files of a theme export. Never throws — a base theme that
+ * cannot be read comes back as `{ ok: false }`.
+ *
+ * @param baseThemePath  The contributed base theme matching `options.kind`
+ * @param palette        What the bridge currently manages
+ */
+export function buildThemeExport(
+  baseThemePath: string,
+  palette: ParsedPalette,
+  options: ThemeExportOptions
+): ThemeExportResult {
+  const base = readBaseTheme(baseThemePath);
+  if (!base.ok) return base;
+
+  const slug = themeSlug(options.name);
+  const themeFile = options.scaffold
+    ? `themes/${slug}-color-theme.json`
+    : `${slug}-color-theme.json`;
+
+  const files: ThemeExportFile[] = [
+    {
+      path: path.join(options.outputDir, themeFile),
+      content: JSON.stringify(buildTheme(base.theme, palette, options), null, 2) + "\n",
+    },
+  ];
+  if (options.scaffold) {
+    files.push({
+      path: path.join(options.outputDir, "package.json"),
+      content: JSON.stringify(buildManifest(slug, themeFile, options), null, 2) + "\n",
+    });
+  }
+  return { ok: true, files };
+}
+
+/** Paths of export files that already exist, relative to the output folder */
+export function existingExportFiles(files: ThemeExportFile[], outputDir: string): string[] {
+  return files.filter((f) => fs.existsSync(f.path)).map((f) => path.relative(outputDir, f.path));
+}
+
+/** Writes the export files, creating folders as needed */
+export function writeThemeExport(files: ThemeExportFile[]): { ok: true } | { ok: false; error: string } {
+  try {
+    for (const file of files) {
+      fs.mkdirSync(path.dirname(file.path), { recursive: true });
+      fs.writeFileSync(file.path, file.content, "utf8");
+    }
+    return { ok: true };
+  } catch (e) {
+    return { ok: false, error: `Cannot write theme export: ${(e as Error).message}` };
+  }
+}
@@ -0,0 +1,92 @@
+// src/engine/themeSwitcher.ts
+// Keeps the active color theme in step with the palette's variant.
+//
+// A light palette painted over "Matugen Dark" fights the base theme's
+// tokenColors and `uiTheme: vs-dark`, so after a palette is applied we
+// pick the matching theme:
+//   1. _meta.variant, if matugenBridge.variantThemes maps it directly
+//   2. otherwise dark/light — from the variant name if it says so, else
+//      from the luminance of editor.background
+//
+// Only themes we know about are ever replaced: if the user is on some
+// other theme, the bridge leaves workbench.colorTheme alone.
+
+import * as vscode from "vscode";
+import type { ColorMap, PaletteMeta, SchemeMode } from "../types";
+import { parseHex, relativeLuminance } from "../utils/color";
+import { logger } from "../utils/logger";
+
+/** The themes contributed in package.json */
+export const CONTRIBUTED_THEMES: Readonly<Record<SchemeMode, string>> = {
+  dark: "Matugen Dark",
+  light: "Matugen Light",
+};
+
+/**
+ * Luminance at which black and white text have equal contrast — above it
+ * a background reads as "light".
+ */
+const LIGHT_LUMINANCE = 0.179;
+
+/** Dark or light, from the variant name or else the editor background; undefined when neither tells */
+export function inferKind(meta: PaletteMeta, colors: ColorMap): SchemeMode | undefined {
+  const variant = typeof meta.variant === "string" ? meta.variant.toLowerCase() : "";
+  if (variant.includes("light")) return "light";
+  if (variant.includes("dark")) return "dark";
+
+  const bg = colors["editor.background"] !== undefined ? parseHex(colors["editor.background"]) : undefined;
+  if (!bg) return undefined;
+  return relativeLuminance(bg) > LIGHT_LUMINANCE ? "light" : "dark";
+}
+
+/**
+ * Switches workbench.colorTheme to the theme matching the palette variant.
+ * No-op when disabled, when the current theme isn't one of ours, or when
+ * it already matches.
+ */
+export async function syncThemeToPalette(meta: PaletteMeta, colors: ColorMap): Promise<void> {
+  const bridgeConfig = vscode.workspace.getConfiguration("matugenBridge");
+  if (!bridgeConfig.get<boolean>("autoSwitchTheme", true)) return;
+
+  // Variant names are matched case-insensitively
+  const variantThemes: Record<string, string> = { ...CONTRIBUTED_THEMES };
+  for (const [name, theme] of Object.entries(bridgeConfig.get<Record<string, string>>("variantThemes", {}))) {
+    variantThemes[name.toLowerCase()] = theme;
+  }
+
+  const variant = typeof meta.variant === "string" ? meta.variant.toLowerCase() : undefined;
+  let target = variant !== undefined ? variantThemes[variant] : undefined;
+  if (target === undefined) {
+    const kind = inferKind(meta, colors);
+    if (kind === undefined) {
+      logger.debug("Theme sync: cannot tell whether the palette is dark or light — skipping.");
+      return;
+    }
+    target = variantThemes[kind];
+  }
+
+  const config = vscode.workspace.getConfiguration();
+  const current = config.get<string>("workbench.colorTheme");
+  const ours = new Set([...Object.values(CONTRIBUTED_THEMES), ...Object.values(variantThemes)]);
+
+  if (current === undefined || !ours.has(current)) {
+    logger.debug(`Theme sync: "${current}" is not a Matugen theme — leaving it alone.`);
+    return;
+  }
+  if (current === target) return;
+
+  // Write where the effective value comes from — a user-level write would
+  // stay hidden under a workspace value and be repeated on every apply
+  const inspected = config.inspect<string>("workbench.colorTheme");
+  if (inspected?.workspaceFolderValue !== undefined) {
+    logger.debug("Theme sync: the theme is set per workspace folder — leaving it alone.");
+    return;
+  }
+  const level = inspected?.workspaceValue !== undefined
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+
+  await config.update("workbench.colorTheme", target, level);
+  const where = level === vscode.ConfigurationTarget.Workspace ? " in workspace settings" : "";
+  logger.info(`Switched color theme "${current}" → "${target}"${where} to match palette variant.`);
+}
@@ -0,0 +1,56 @@
+// src/engine/tokenFilter.ts
+// Narrows a palette's ColorMap before it is applied.
+//
+// Three filters run in order; a token removed by one is not counted again:
+//  1. include — when non-empty, only tokens matching one of its globs pass
+//  2. exclude — tokens matching any of its globs are dropped
+//  3. pinned  — tokens the user froze with "Pin Color Token"; their frozen
+//     value lives in the user's own colorCustomizations and must never be
+//     overwritten by a palette
+//
+// Filtered tokens are simply not managed: whatever the user or the base
+// theme has for them shows through.
+
+import type { ColorMap } from "../types";
+import { globMatcher } from "../utils/glob";
+
+export interface TokenFilterSettings {
+  include: string[];
+  exclude: string[];
+  /** token → frozen value */
+  pinned: Record<string, string>;
+}
+
+/** How many tokens each filter removed */
+export interface TokenFilterStats {
+  include: number;
+  exclude: number;
+  pinned: number;
+}
+
+export function emptyFilterStats(): TokenFilterStats {
+  return { include: 0, exclude: 0, pinned: 0 };
+}
+
+/** Returns the tokens of `colors` that survive every filter. Never throws. */
+export function filterColors(
+  colors: ColorMap,
+  settings: TokenFilterSettings
+): { colors: ColorMap; stats: TokenFilterStats } {
+  const included = settings.include.some((g) => g.trim() !== "")
+    ? globMatcher(settings.include)
+    : () => true;
+  const excluded = globMatcher(settings.exclude);
+
+  const out: ColorMap = {};
+  const stats = emptyFilterStats();
+
+  for (const [token, value] of Object.entries(colors)) {
+    if (!included(token)) stats.include++;
+    else if (excluded(token)) stats.exclude++;
+    else if (token in settings.pinned) stats.pinned++;
+    else out[token] = value;
+  }
+
+  return { colors: out, stats };
+}
@@ -0,0 +1,94 @@
+// src/engine/transition.ts
+// Optional animated transition between the live palette and a new one.
+//
+// Every managed token that exists in both palettes is interpolated in
+// OKLab (eased in and out) over `durationMs`, in `steps` frames. Only the
+// intermediate frames are written here; the caller finishes with a normal
+// applyColors() so the final state is exactly the target palette.
+//
+// A new palette change or a clearOverrides cancels the running animation.
+// cancel() also waits for a frame write that is already in flight, so
+// nothing from the old animation can land after the caller moves on.
+
+import type { ColorMap } from "../types";
+import { mixColors, parseHex, toHex } from "../utils/color";
+import type { RGBA } from "../utils/color";
+import { logger } from "../utils/logger";
+
+export interface TransitionSettings {
+  durationMs: number;
+  steps: number;
+}
+
+/** Smooth start and end, faster in the middle */
+function easeInOut(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class PaletteTransition {
+  /** Bumped on every cancel — a running animation stops when it changes */
+  private generation = 0;
+  private inFlight: Promise<void> = Promise.resolve();
+
+  /** Stops any running animation and waits for its last frame write */
+  async cancel(): Promise<void> {
+    this.generation++;
+    await this.inFlight;
+  }
+
+  /**
+   * Animates from `from` to `to`, handing each intermediate frame to
+   * `writeFrame`. Resolves true when all frames were written (or there was
+   * nothing to animate), false when cancelled part-way.
+   */
+  async run(
+    from: ColorMap,
+    to: ColorMap,
+    settings: TransitionSettings,
+    writeFrame: (frame: ColorMap) => Promise<void>
+  ): Promise<boolean> {
+    const generation = ++this.generation;
+
+    // Pairs of parsed colors for tokens that actually change
+    const pairs: Array<[string, RGBA, RGBA]> = [];
+    for (const [token, target] of Object.entries(to)) {
+      if (from[token] === undefined || from[token] === target) continue;
+      const a = parseHex(from[token]);
+      const b = parseHex(target);
+      if (a && b) pairs.push([token, a, b]);
+    }
+
+    const steps = Math.max(1, Math.round(settings.steps));
+    if (pairs.length === 0 || settings.durationMs <= 0 || steps < 2) {
+      return true;
+    }
+
+    const interval = settings.durationMs / steps;
+    logger.debug(`Transition: ${pairs.length} token(s) over ${settings.durationMs}ms in ${steps} steps.`);
+
+    // Frames 1 … steps-1; the final frame is the caller's exact applyColors()
+    for (let i = 1; i < steps; i++) {
+      await sleep(interval);
+      if (generation !== this.generation) return false;
+
+      const t = easeInOut(i / steps);
+      const frame: ColorMap = {};
+      for (const [token, a, b] of pairs) {
+        frame[token] = toHex(mixColors(a, b, t));
+      }
+
+      this.inFlight = writeFrame(frame).catch((e: Error) => {
+        logger.debug(`Transition frame write failed: ${e.message}`);
+      });
+      await this.inFlight;
+      if (generation !== this.generation) return false;
+    }
+
+    await sleep(interval);
+    return generation === this.generation;
+  }
+}
@@ -2,24 +2,131 @@
 // Extension entry point — wires everything together.
 //
 // Lifecycle:
-//   activate()  → read config → resolve palette path
+//   activate()  → read config → resolve palette layers
+//               → join the window election (one window writes
+//                 user-level palettes for all of them)
 //               → apply palette immediately
-//               → start file watcher
+//               → start one file watcher per layer
+//               → accept pushed palettes (vscode:// URI, optional socket)
 //               → register commands
-//               → listen for config changes
+//               → listen for config and color theme changes
+//               → return the public API (api/bridgeApi.ts)
 //
-//   deactivate() → dispose watcher & logger (colors remain — intentional)
+//   deactivate() → dispose watchers & logger (colors remain — intentional)
 
 import * as vscode from "vscode";
-import { resolvePalettePath, readPalette } from "./engine/paletteReader";
-import { applyColors, clearColors, getManagedStatus } from "./engine/colorApplier";
+import { BridgeApi } from "./api/bridgeApi";
+import type { MatugenBridgeApi } from "./api/bridgeApi";
+import { resolvePalettePath, parsePalette, readPalette } from "./engine/paletteReader";
+import {
+  applyColors,
+  applySemanticTokenColors,
+  applyTokenColors,
+  clearColors,
+  findColorDrift,
+  getManagedColors,
+  getManagedPalette,
+  getManagedStatus,
+  migrateManagedLayout,
+  pinColor,
+  releaseColors,
+  unpinColor,
+  writeColorFrame,
+} from "./engine/colorApplier";
+import { auditContrast } from "./engine/contrast";
+import type { ContrastFinding } from "./engine/contrast";
+import { generateAnsiColors } from "./engine/ansiPalette";
+import { DEFAULT_WORKSPACE_OVERRIDES, readLayers, resolveLayers } from "./engine/paletteLayers";
+import { inferKind, syncThemeToPalette } from "./engine/themeSwitcher";
+import { buildThemeExport, existingExportFiles, writeThemeExport } from "./engine/themeExport";
+import { PaletteHistory } from "./engine/paletteHistory";
+import { PaletteTransition } from "./engine/transition";
+import type { TransitionSettings } from "./engine/transition";
+import { emptyFilterStats, filterColors } from "./engine/tokenFilter";
+import type { TokenFilterSettings, TokenFilterStats } from "./engine/tokenFilter";
+import { promptThemeExport } from "./ui/exportPrompt";
+import { pickSnapshot } from "./ui/historyPicker";
+import { PaletteDiagnostics } from "./ui/paletteDiagnostics";
+import { PalettePreview } from "./ui/palettePreview";
+import { HEARTBEAT_MS, WindowLease } from "./coordination/windowLease";
+import type { WindowRole } from "./coordination/windowLease";
+import { decodePush } from "./push/payload";
+import { PaletteSocketServer } from "./push/socketServer";
 import { PaletteWatcher } from "./watcher/paletteWatcher";
+import { coalesce } from "./utils/coalesce";
 import { logger } from "./utils/logger";
+import type {
+  ColorDrift,
+  ColorMap,
+  ContrastMode,
+  DeletePolicy,
+  DriftPolicy,
+  PaletteFormat,
+  PaletteLayer,
+  PaletteLayerName,
+  PalettePush,
+  PaletteReadOptions,
+  PaletteSnapshot,
+  PaletteVariant,
+  ParsedPalette,
+  PushResult,
+  SchemeMode,
+} from "./types";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Helpers
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Variant used by the last successful apply — lets theme changes skip no-op re-applies */
+let appliedVariant: PaletteVariant | undefined;
+
+/** Applied-palette history; created in activate() once global storage is known */
+let history: PaletteHistory | undefined;
+
+/** Preview panel for "confirm" apply mode; created in activate() */
+let preview: PalettePreview | undefined;
+
+/** Shared so a new palette or a clear can cancel a running animation */
+const transition = new PaletteTransition();
+
+/** What include / exclude / pinned removed on the last apply — for showStatus */
+let filterStats: TokenFilterStats = emptyFilterStats();
+
+/** Palette pushed via URI, socket or the API; stands in for the matugen file until that changes */
+let pushed: PalettePush | undefined;
+
+/** The matugen file was deleted under "clear" — the next apply that finds it missing clears */
+let clearOnMissing = false;
+
+/** What one apply run did, reported back to pushes */
+interface ApplyOutcome {
+  /** Why nothing was written; undefined on success */
+  error: string | undefined;
+  /** The pushed palette the run applied, if any */
+  push: PalettePush | undefined;
+}
+
+/** Window election; undefined while matugenBridge.coordinateWindows is off */
+let lease: WindowLease | undefined;
+
+/** Whether this window writes user-level palettes — every window does without coordination */
+function isLeader(): boolean {
+  return lease?.isLeader ?? true;
+}
+
+function shouldCoordinate(): boolean {
+  return vscode.workspace
+    .getConfiguration("matugenBridge")
+    .get<boolean>("coordinateWindows", true);
+}
+
+function describeRole(): string {
+  if (!lease) return "every window applies on its own";
+  if (lease.isLeader) return "this window applies palettes for all windows";
+  const holder = lease.holder;
+  return `another window${holder ? ` (pid ${holder.pid})` : ""} applies palettes`;
+}
+
 function isEnabled(): boolean {
   return vscode.workspace
     .getConfiguration("matugenBridge")
@@ -32,86 +139,904 @@ function getCustomPath(): string | undefined {
     .get<string>("palettePath");
 }
 
+/** Palette sources in precedence order, from the current settings */
+function getLayers(): PaletteLayer[] {
+  const config = vscode.workspace.getConfiguration("matugenBridge");
+  return resolveLayers({
+    palettePath: resolvePalettePath(getCustomPath()),
+    format: config.get<PaletteFormat>("format", "auto"),
+    overridesPath: config.get<string>("overridesPath", ""),
+    workspaceOverridesPath: config.get<string>("workspaceOverridesPath", DEFAULT_WORKSPACE_OVERRIDES),
+    workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+  });
+}
+
+/** The layers to read: getLayers(), with a pushed palette in place of the matugen file */
+function getReadLayers(): PaletteLayer[] {
+  const push = pushed;
+  if (!push) return getLayers();
+  return getLayers().map((l) =>
+    l.name === "matugen" ? { ...l, path: push.path, format: push.format, content: push.content } : l
+  );
+}
+
+function describeLayers(): string {
+  return getReadLayers()
+    .map((l) => `${l.name}: ${l.content !== undefined ? `palette pushed via ${pushed?.via}` : l.path}`)
+    .join("\n");
+}
+
+function getDeletePolicy(): DeletePolicy {
+  return vscode.workspace
+    .getConfiguration("matugenBridge")
+    .get<DeletePolicy>("onDelete", "keep");
+}
+
+function getSocketPath(): string {
+  return vscode.workspace
+    .getConfiguration("matugenBridge")
+    .get<string>("socketPath", "");
+}
+
+/**
+ * Palette variant to use for multi-variant files and matugen's raw scheme.
+ * "auto" follows the kind of the active color theme.
+ */
+function getVariant(): PaletteVariant {
+  const mode = vscode.workspace
+    .getConfiguration("matugenBridge")
+    .get<"auto" | SchemeMode>("schemeMode", "auto");
+  if (mode !== "auto") return mode;
+
+  switch (vscode.window.activeColorTheme.kind) {
+    case vscode.ColorThemeKind.Light:             return "light";
+    case vscode.ColorThemeKind.HighContrast:      return "highContrast";
+    case vscode.ColorThemeKind.HighContrastLight: return "highContrastLight";
+    default:                                      return "dark";
+  }
+}
+
+function getReadOptions(): PaletteReadOptions {
+  return {
+    variant: getVariant(),
+    roleOverrides: vscode.workspace
+      .getConfiguration("matugenBridge")
+      .get<Record<string, string>>("roleOverrides", {}),
+  };
+}
+
+function getContrastSettings(): { mode: ContrastMode; minRatio: number } {
+  const config = vscode.workspace.getConfiguration("matugenBridge");
+  return {
+    mode: config.get<ContrastMode>("contrastMode", "off"),
+    minRatio: config.get<number>("contrastMinRatio", 4.5),
+  };
+}
+
+/** "confirm" shows file-driven palette changes in the preview panel first */
+function getApplyMode(): "auto" | "confirm" {
+  return vscode.workspace
+    .getConfiguration("matugenBridge")
+    .get<"auto" | "confirm">("applyMode", "auto");
+}
+
+function shouldGenerateTerminalColors(): boolean {
+  return vscode.workspace
+    .getConfiguration("matugenBridge")
+    .get<boolean>("generateTerminalColors", false);
+}
+
+function getHistorySize(): number {
+  return vscode.workspace
+    .getConfiguration("matugenBridge")
+    .get<number>("historySize", 20);
+}
+
+function getFilterSettings(): TokenFilterSettings {
+  const config = vscode.workspace.getConfiguration("matugenBridge");
+  return {
+    include: config.get<string[]>("include", []),
+    exclude: config.get<string[]>("exclude", []),
+    pinned: config.get<Record<string, string>>("pinnedTokens", {}),
+  };
+}
+
+/** Runs the token filters over every layer read, tallying what was removed */
+function filterPalettes<P extends ParsedPalette>(palettes: Array<P | null>): Array<P | null> {
+  const settings = getFilterSettings();
+  filterStats = emptyFilterStats();
+  return palettes.map((p) => {
+    if (!p) return p;
+    const { colors, stats } = filterColors(p.colors, settings);
+    filterStats.include += stats.include;
+    filterStats.exclude += stats.exclude;
+    filterStats.pinned += stats.pinned;
+    return { ...p, colors };
+  });
+}
+
+function getDriftPolicy(): DriftPolicy {
+  return vscode.workspace
+    .getConfiguration("matugenBridge")
+    .get<DriftPolicy>("driftPolicy", "adopt");
+}
+
+/** "statusBar.background (changed), [Matugen Dark] tab.border (removed)" */
+function describeDrift(drift: ColorDrift[]): string {
+  return drift.map((d) => `${d.scope ? `${d.scope} ` : ""}${d.key} (${d.kind})`).join(", ");
+}
+
+/** " (workspace)" for log lines about workspace settings */
+function levelLabel(target: vscode.ConfigurationTarget): string {
+  return target === vscode.ConfigurationTarget.Workspace ? " (workspace)" : "";
+}
+
+/**
+ * matugenBridge.exclude as stored at `target`. A workspace without its own
+ * list starts from the user's, which its list replaces once written.
+ */
+function getExcludeAt(target: vscode.ConfigurationTarget): string[] {
+  const inspected = vscode.workspace.getConfiguration("matugenBridge").inspect<string[]>("exclude");
+  const user = inspected?.globalValue ?? [];
+  return target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue ?? user : user;
+}
+
+async function setExcludeAt(exclude: string[], target: vscode.ConfigurationTarget): Promise<void> {
+  await vscode.workspace
+    .getConfiguration("matugenBridge")
+    .update("exclude", exclude.length > 0 ? exclude : undefined, target);
+}
+
+/**
+ * Asks whether hand-edited colors, already adopted, should go back to the
+ * palette. Not awaited by the apply — an open notification must not hold
+ * up this or any later apply. Overwriting takes them out of
+ * matugenBridge.exclude again, which re-applies.
+ */
+async function askAboutDrift(keys: string[], target: vscode.ConfigurationTarget): Promise<void> {
+  const shown = keys.slice(0, 3).join(", ") + (keys.length > 3 ? `, +${keys.length - 3} more` : "");
+  const where = target === vscode.ConfigurationTarget.Workspace ? " in workspace settings" : "";
+  const choice = await vscode.window.showWarningMessage(
+    `Matugen Bridge: ${keys.length} palette color(s) were edited by hand${where} (${shown}). ` +
+    "Your values are kept — or let the palette overwrite them?",
+    "Keep Mine",
+    "Overwrite"
+  );
+  // Dismissing keeps the user's values — the safe choice
+  if (choice !== "Overwrite") return;
+
+  try {
+    await setExcludeAt(getExcludeAt(target).filter((k) => !keys.includes(k)), target);
+    logger.info(`Handing ${keys.join(", ")} back to the palette${levelLabel(target)}.`);
+  } catch (e) {
+    logger.error(`Failed to hand hand-edited colors back to the palette: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Looks for managed colors at `target` edited by hand since the last write
+ * and applies matugenBridge.driftPolicy. Adopted keys are released and
+ * added to matugenBridge.exclude at the same level, so no later palette
+ * touches them; the returned colors leave them out. "ask" adopts them
+ * too, then asks in the background whether to overwrite after all.
+ * Never throws.
+ */
+async function resolveDrift(colors: ColorMap, target: vscode.ConfigurationTarget): Promise<ColorMap> {
+  const drift = findColorDrift(target);
+  if (drift.length === 0) return colors;
+
+  const keys = [...new Set(drift.map((d) => d.key))];
+  const level = levelLabel(target);
+  logger.info(`${keys.length} managed color(s) edited by hand${level}: ${describeDrift(drift)}`);
+
+  const policy = getDriftPolicy();
+  if (policy === "overwrite") {
+    logger.info(`Overwriting hand-edited colors${level} (matugenBridge.driftPolicy).`);
+    return colors;
+  }
+
+  try {
+    await releaseColors(keys, target);
+    const exclude = getExcludeAt(target);
+    await setExcludeAt([...exclude, ...keys.filter((k) => !exclude.includes(k))], target);
+  } catch (e) {
+    logger.error(`Failed to adopt hand-edited colors: ${(e as Error).message}`);
+    return colors;
+  }
+  logger.info(`Adopted ${keys.join(", ")} as your own — added to matugenBridge.exclude${level}.`);
+  if (policy === "ask") void askAboutDrift(keys, target);
+
+  const kept = { ...colors };
+  for (const key of keys) delete kept[key];
+  return kept;
+}
+
+function getTransitionSettings(): TransitionSettings {
+  const config = vscode.workspace.getConfiguration("matugenBridge");
+  return {
+    durationMs: config.get<number>("transitionMs", 0),
+    steps: config.get<number>("transitionSteps", 12),
+  };
+}
+
 /**
- * Core apply logic: read → validate → merge → write.
+ * Writes an already validated palette to settings and syncs the theme.
+ * Managed colors edited by hand are dealt with first (driftPolicy).
+ * `source` is recorded with the colors (ManagedMeta.source).
+ * Returns false if the write failed (after notifying) or was superseded
+ * by a newer palette mid-transition — never throws.
+ */
+async function writePalette(palette: ParsedPalette, silent: boolean, source: string): Promise<boolean> {
+  palette = { ...palette, colors: await resolveDrift(palette.colors, vscode.ConfigurationTarget.Global) };
+  try {
+    // ── optional animated transition ────────────────────────────────
+    await transition.cancel();
+    const completed = await transition.run(
+      getManagedColors(),
+      palette.colors,
+      getTransitionSettings(),
+      writeColorFrame
+    );
+    if (!completed) {
+      logger.debug("Transition superseded by a newer palette.");
+      return false;
+    }
+
+    await applyColors(palette.colors, vscode.ConfigurationTarget.Global, source);
+    await applyTokenColors(palette.tokenColors);
+    await applySemanticTokenColors(palette.semanticTokenColors);
+    await syncThemeToPalette(palette.meta, palette.colors);
+    if (!silent) {
+      const rules =
+        Object.keys(palette.tokenColors).length +
+        Object.keys(palette.semanticTokenColors).length;
+      vscode.window.setStatusBarMessage(
+        `$(paintcan) Matugen: ${Object.keys(palette.colors).length} colors, ` +
+        `${rules} token rules applied`,
+        4000
+      );
+    }
+    return true;
+  } catch (e) {
+    const msg = `Failed to write color customizations: ${(e as Error).message}`;
+    logger.error(msg);
+    vscode.window.showErrorMessage(`Matugen Bridge: ${msg}`);
+    return false;
+  }
+}
+
+/**
+ * Writes the workspace layer to workspace settings — or, with `null`,
+ * removes whatever an earlier workspace layer left there. Hand edits there
+ * are dealt with first (driftPolicy). Never throws.
+ */
+async function writeWorkspaceLayer(palette: ParsedPalette | null): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.length) return;
+  const target = vscode.ConfigurationTarget.Workspace;
+  const colors = await resolveDrift(palette?.colors ?? {}, target);
+  try {
+    await applyColors(colors, target);
+    await applyTokenColors(palette?.tokenColors ?? {}, target);
+    await applySemanticTokenColors(palette?.semanticTokenColors ?? {}, target);
+  } catch (e) {
+    const msg = `Failed to write workspace color customizations: ${(e as Error).message}`;
+    logger.error(msg);
+    vscode.window.showErrorMessage(`Matugen Bridge: ${msg}`);
+  }
+}
+
+/** Re-applies a snapshot from history and makes it the current entry */
+async function applySnapshot(snapshot: PaletteSnapshot): Promise<boolean> {
+  // Filters may have changed since the snapshot was taken
+  const [filtered] = filterPalettes([snapshot]);
+  const ok = await writePalette(filtered ?? snapshot, false, "snapshot");
+  if (ok) {
+    history?.markCurrent(snapshot.id);
+    logger.info(`Restored palette snapshot from ${snapshot.savedAt}.`);
+  }
+  return ok;
+}
+
+/**
+ * Core apply logic: read layers → validate → merge → write.
+ * User-level layers go to user settings, the workspace layer to workspace
+ * settings. With `confirm`, the user-level palette is shown in the preview
+ * panel and only written once accepted. A window that does not lead
+ * applies its workspace layer only — except for a palette pushed through
+ * the API in this window, which it writes once itself.
  * All errors are surfaced as VS Code notifications — never throws.
  */
-async function applyPalette(palettePath: string, silent = false): Promise<void> {
+async function applyPalette(silent = false, confirm = false): Promise<ApplyOutcome> {
+  const push = pushed;
+  const outcome = (error?: string): ApplyOutcome => ({ error, push });
   if (!isEnabled()) {
     logger.debug("Extension is disabled — skipping apply.");
-    return;
+    return outcome("The extension is disabled (matugenBridge.enabled).");
+  }
+
+  // A pinned snapshot stands in for the user-level layers; the workspace
+  // layer still follows its file
+  const pinned = history?.pinned;
+  if (pinned) {
+    logger.debug(`Palette pinned to snapshot from ${pinned.savedAt} — ignoring user-level palette layers.`);
+  }
+
+  // User settings are shared — the leading window writes them for all.
+  // An API push doesn't move the lead (the caller may be a background
+  // extension), so a window that doesn't lead writes it once itself; the
+  // leading window replaces it on its next palette change.
+  const oneOffPush = !isLeader() && push?.via === "api";
+  const leading = isLeader() || oneOffPush;
+  if (oneOffPush) {
+    logger.info("Writing the palette pushed through the API from this window — another window leads.");
+    pushed = undefined;
+  } else if (!leading) {
+    logger.debug("Another window applies user-level palettes — reading the workspace layer only.");
   }
 
-  logger.debug(`Reading palette from: ${palettePath}`);
-  const result = readPalette(palettePath);
+  const options = getReadOptions();
+  const layers = getReadLayers().filter((l) => (leading && !pinned) || l.target === "workspace");
+  logger.debug(`Reading palette layers: ${layers.map((l) => l.name).join(", ")}`);
+  const result = readLayers(layers, options);
+  // The file is back — nothing left to clear
+  if (result.ok && layers.some((l) => l.name === "matugen" && l.content === undefined)) clearOnMissing = false;
+
+  // ── missing palette file, "clear" policy ──────────────────────────
+  // Cleared from the apply queue, so it never interleaves with a write
+  if (!result.ok && result.missing && leading && !pushed && !pinned && clearOnMissing) {
+    clearOnMissing = false;
+    logger.info("Palette file deleted — clearing managed colors (matugenBridge.onDelete).");
+    try {
+      await clearColors([vscode.ConfigurationTarget.Global]);
+    } catch (e) {
+      logger.error(`Failed to clear color customizations: ${(e as Error).message}`);
+      return outcome("The colors were not cleared — see the Matugen Bridge output.");
+    }
+    return outcome();
+  }
+
+  // ── missing palette file, "restoreSnapshot" policy ────────────────
+  // The latest snapshot stands in until the file is back
+  const fallback = history?.current;
+  if (!result.ok && result.missing && leading && !pushed && fallback && getDeletePolicy() === "restoreSnapshot") {
+    logger.info(`${result.error} — restoring the latest snapshot (${fallback.savedAt}) until it is back.`);
+    const [filtered] = filterPalettes([fallback]);
+    if (!(await writePalette(filtered ?? fallback, true, "snapshot"))) {
+      return outcome("The snapshot was not written — see the Matugen Bridge output.");
+    }
+    return outcome();
+  }
 
   if (!result.ok) {
     logger.error(result.error);
     if (!silent) {
       vscode.window.showWarningMessage(`Matugen Bridge: ${result.error}`);
     }
-    return;
+    return outcome(result.error);
   }
 
-  try {
-    await applyColors(result.colors);
+  // ── generated terminal colors ─────────────────────────────────────
+  // Fills in only the terminal.ansi* tokens the layers leave unset
+  let merged = result.global;
+  if (merged && shouldGenerateTerminalColors()) {
+    merged = { ...merged, colors: { ...generateAnsiColors(merged.colors), ...merged.colors } };
+  }
+
+  // ── token filters ─────────────────────────────────────────────────
+  const [globalLayers, workspaceLayer] = filterPalettes([merged, result.workspace]);
+
+  for (const msg of result.skipped) {
+    logger.error(msg);
     if (!silent) {
-      vscode.window.setStatusBarMessage(
-        `$(paintcan) Matugen: ${Object.keys(result.colors).length} colors applied`,
-        4000
+      vscode.window.showWarningMessage(`Matugen Bridge: ${msg}`);
+    }
+  }
+
+  // ── contrast audit ────────────────────────────────────────────────
+  // User-level colors are shared by every window, so they are audited on
+  // their own. The workspace layer is audited against what this window
+  // actually shows; any fix it needs stays in the workspace layer.
+  const contrast = getContrastSettings();
+  const globalAudit = globalLayers
+    ? auditContrast(globalLayers.colors, contrast.mode, contrast.minRatio)
+    : undefined;
+  const baseColors = globalAudit?.colors ?? pinned?.colors ?? getManagedColors();
+  let findings = globalAudit?.findings.length ?? 0;
+
+  let workspace: ParsedPalette | null = null;
+  if (workspaceLayer) {
+    const wsColors = workspaceLayer.colors;
+    const wsAudit = auditContrast({ ...baseColors, ...wsColors }, contrast.mode, contrast.minRatio);
+    const colors: ColorMap = {};
+    for (const [token, value] of Object.entries(wsAudit.colors)) {
+      if (token in wsColors || value !== baseColors[token]) colors[token] = value;
+    }
+    workspace = { ...workspaceLayer, colors };
+    if (contrast.mode === "fix") {
+      // Fixes made here come on top of the ones the user-level audit made
+      findings += wsAudit.findings.length;
+    } else {
+      // Both audits see the user-level pairs — count each failing pair once
+      const pair = (f: ContrastFinding): string => `${f.foreground} on ${f.background}`;
+      findings = new Set([...(globalAudit?.findings ?? []), ...wsAudit.findings].map(pair)).size;
+    }
+  }
+
+  if (findings > 0) {
+    if (contrast.mode === "warn") {
+      vscode.window.showWarningMessage(
+        `Matugen Bridge: ${findings} color pair(s) below ${contrast.minRatio}:1 contrast — see output for details.`
+      );
+    } else if (!silent) {
+      vscode.window.showInformationMessage(
+        `Matugen Bridge: adjusted ${findings} foreground color(s) to reach ${contrast.minRatio}:1 contrast.`
       );
     }
-  } catch (e) {
-    const msg = `Failed to write color customizations: ${(e as Error).message}`;
-    logger.error(msg);
-    vscode.window.showErrorMessage(`Matugen Bridge: ${msg}`);
   }
+
+  // ── write ─────────────────────────────────────────────────────────
+  if (globalLayers && globalAudit) {
+    let palette: ParsedPalette = { ...globalLayers, colors: globalAudit.colors };
+
+    if (confirm && preview) {
+      const decision = await preview.confirm(palette, getManagedColors());
+      if (decision.action === "discard") {
+        logger.info("New palette discarded from the preview.");
+        return outcome("The palette was discarded in the preview.");
+      }
+      palette = decision.palette;
+    }
+
+    const source = push ? push.source ?? push.via : "file";
+    if (!(await writePalette(palette, silent, source))) {
+      return outcome("The palette was not written — see the Matugen Bridge output.");
+    }
+    history?.record(palette);
+  }
+
+  await writeWorkspaceLayer(workspace);
+  appliedVariant = options.variant;
+  return outcome();
+}
+
+/**
+ * Every apply goes through here. Applies never overlap, and a burst of
+ * requests — from several layer watchers, each with its own debounce
+ * window, or from settings changes — collapses into a single run once the
+ * current one finishes. The merged run is loud if any request was, and
+ * asks for confirmation if any request did.
+ */
+const runApply = coalesce(
+  applyPalette,
+  ([silentA = false, confirmA = false], [silentB = false, confirmB = false]): [boolean, boolean] =>
+    [silentA && silentB, confirmA || confirmB]
+);
+
+function requestApply(silent = false, confirm = false): Promise<ApplyOutcome | undefined> {
+  // A palette still waiting in the preview, or still fading in, is stale
+  // once a newer apply is requested — end that run early so the newer one
+  // takes its place
+  preview?.supersede();
+  void transition.cancel();
+  return runApply(silent, confirm);
+}
+
+/** Applies matugenBridge.onDelete once the matugen palette file is gone for good */
+async function handlePaletteDeleted(): Promise<void> {
+  if (pushed) {
+    logger.info("Palette file deleted — a pushed palette is in use, so nothing changes.");
+    return;
+  }
+  if (history?.pinned) {
+    logger.info("Palette file deleted — a snapshot is pinned, so nothing changes.");
+    return;
+  }
+
+  switch (getDeletePolicy()) {
+    case "clear":
+      // The apply finds the file missing and clears — queued like any apply
+      clearOnMissing = true;
+      await requestApply(true);
+      return;
+    case "restoreSnapshot":
+      // The apply finds the file missing and falls back to the snapshot
+      await requestApply(true);
+      return;
+    default:
+      logger.info("Palette file deleted — colors will remain until a new file appears.");
+  }
+}
+
+/**
+ * Validates a pushed palette with the reader, then applies it in place of
+ * the matugen file. The outcome goes back to the sender — never throws.
+ */
+async function applyPush(push: PalettePush): Promise<PushResult> {
+  if (!isEnabled()) {
+    return { ok: false, error: "The extension is disabled (matugenBridge.enabled)." };
+  }
+  if (history?.pinned) {
+    return { ok: false, error: "A palette snapshot is pinned — unpin it to accept pushed palettes." };
+  }
+
+  const options = { ...getReadOptions(), format: push.format };
+  const result = push.content !== undefined
+    ? parsePalette(push.content, options, push.path)
+    : readPalette(push.path, options);
+  if (!result.ok) {
+    logger.error(`Pushed palette rejected: ${result.error}`);
+    return { ok: false, error: result.error };
+  }
+
+  pushed = push;
+  const from = push.content === undefined ? ` from ${push.path}` : push.source ? ` by ${push.source}` : "";
+  logger.info(`Palette pushed via ${push.via}${from}.`);
+  // Requests are merged, so the run that covers this one may have picked
+  // up a newer push instead
+  const applied = await requestApply(true, getApplyMode() === "confirm");
+  if (!applied) return { ok: false, error: "The apply failed — see the Matugen Bridge output." };
+  if (applied.push !== push) return { ok: false, error: "A newer palette replaced this one before it was applied." };
+  if (applied.error !== undefined) return { ok: false, error: applied.error };
+  return {
+    ok: true,
+    colors: Object.keys(result.colors).length,
+    tokenColors: Object.keys(result.tokenColors).length,
+    semanticTokenColors: Object.keys(result.semanticTokenColors).length,
+  };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Activate
 // ─────────────────────────────────────────────────────────────────────────────
 
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
+export async function activate(context: vscode.ExtensionContext): Promise<MatugenBridgeApi> {
   logger.info("Matugen Theme Bridge activating…");
 
-  // ── resolve initial palette path ──────────────────────────────────
-  let palettePath = resolvePalettePath(getCustomPath());
+  // ── palette history ───────────────────────────────────────────────
+  const storageDir = context.globalStorageUri.fsPath;
+  history = new PaletteHistory(storageDir, getHistorySize());
 
-  // ── create watcher ────────────────────────────────────────────────
-  const watcher = new PaletteWatcher(async () => {
-    await applyPalette(watcher.watchedPath, true);
-  });
-  watcher.start(palettePath);
-  context.subscriptions.push(watcher);
+  // ── preview panel ─────────────────────────────────────────────────
+  preview = new PalettePreview();
+  context.subscriptions.push(preview);
+
+  // ── push socket (listens once this window leads) ──────────────────
+  const socket = new PaletteSocketServer(applyPush);
+  context.subscriptions.push(socket);
+
+  // ── create one watcher per layer ──────────────────────────────────
+  // Any layer changing re-reads all of them — the merge needs every layer.
+  // Only the leading window watches the user-level layers.
+  // Deleting an optional layer re-applies too, so its colors go away;
+  // deleting the matugen file follows matugenBridge.onDelete.
+  const watchers = new Map<PaletteLayerName, PaletteWatcher>();
+  for (const name of ["matugen", "personal", "workspace"] as PaletteLayerName[]) {
+    const onChange = async (): Promise<void> => {
+      // A new palette file replaces whatever was pushed since
+      if (name === "matugen" && pushed) {
+        logger.debug("Palette file changed — dropping the pushed palette.");
+        pushed = undefined;
+      }
+      await requestApply(true, getApplyMode() === "confirm");
+    };
+    const watcher = new PaletteWatcher(onChange, name === "matugen" ? handlePaletteDeleted : onChange);
+    watchers.set(name, watcher);
+    context.subscriptions.push(watcher);
+  }
+
+  const startWatchers = (): void => {
+    const layers = getLayers();
+    for (const [name, watcher] of watchers) {
+      const layer = layers.find((l) => l.name === name);
+      if (layer && (layer.target === "workspace" || isLeader())) watcher.start(layer.path);
+      else watcher.stop();
+    }
+  };
+
+  // ── window coordination ───────────────────────────────────────────
+  // One window reads the user-level layers and writes user settings; the
+  // others see the settings change and only apply their workspace layer.
+  // When the leader closes, another window takes over and catches up.
+  const syncSocket = async (): Promise<void> => {
+    await socket.start(isLeader() ? getSocketPath() : "");
+    // After a takeover the previous leader lets go at its next heartbeat
+    if (isLeader() && getSocketPath().trim() !== "" && !socket.listening) {
+      setTimeout(() => {
+        if (isLeader() && !socket.listening) void socket.start(getSocketPath());
+      }, HEARTBEAT_MS * 2);
+    }
+  };
+
+  /** Brings history, watchers and the socket in line with this window's role */
+  const followRole = async (): Promise<void> => {
+    if (isLeader()) history?.reload();
+    startWatchers();
+    await syncSocket();
+  };
+
+  const onRoleChange = async (role: WindowRole): Promise<void> => {
+    await followRole();
+    if (role === "leader") await requestApply(true);
+  };
+
+  const startCoordination = async (): Promise<void> => {
+    lease?.dispose();
+    lease = undefined;
+    if (!shouldCoordinate()) return;
+    lease = new WindowLease(storageDir, (role) => void onRoleChange(role));
+    await lease.start();
+  };
+
+  /**
+   * The window the user acts in takes the lead, so history, pins and
+   * pushes are handled where they were asked for.
+   */
+  const takeLead = async (): Promise<void> => {
+    if (lease?.takeOver()) await followRole();
+  };
+
+  await startCoordination();
+  context.subscriptions.push({ dispose: () => lease?.dispose() });
+  startWatchers();
+
+  // ── diagnostics for open palette files ────────────────────────────
+  const diagnostics = new PaletteDiagnostics(() => getLayers().map((l) => l.path));
+  context.subscriptions.push(diagnostics);
 
   // ── apply immediately on startup ──────────────────────────────────
-  await applyPalette(palettePath, true);
+  // Not awaited: the link handler and the API must not wait on it
+  void requestApply(true);
+
+  // ── pushed palettes ───────────────────────────────────────────────
+  // vscode://<extension id>/apply?… and, when configured, a local socket.
+  // Both hand their payload to the same reader as the palette file. A link
+  // is applied only once the user confirms it, and the window it opened in
+  // then takes the lead; the socket is only served by the leading window.
+  context.subscriptions.push(
+    vscode.window.registerUriHandler({
+      handleUri: async (uri) => {
+        if (uri.path !== "/apply") {
+          vscode.window.showWarningMessage(`Matugen Bridge: Unknown link "${uri.path}" — expected /apply.`);
+          return;
+        }
+        const decoded = decodePush(new URLSearchParams(uri.query), undefined, "uri");
+        if (!decoded.ok) {
+          vscode.window.showWarningMessage(`Matugen Bridge: ${decoded.error}`);
+          return;
+        }
+
+        // Any web page or message can open a link — nothing is read or
+        // written until the user says so
+        const what = decoded.push.content === undefined
+          ? `the palette file ${decoded.push.path}`
+          : "an inline palette";
+        const choice = await vscode.window.showWarningMessage(
+          `Matugen Bridge: A link wants to apply ${what} to your color settings.`,
+          { modal: true, detail: "Only continue if you opened this link yourself, e.g. from a matugen hook." },
+          "Apply"
+        );
+        if (choice !== "Apply") {
+          logger.info("Link push declined.");
+          return;
+        }
+
+        await takeLead();
+        const result = await applyPush(decoded.push);
+        if (!result.ok) {
+          vscode.window.showWarningMessage(`Matugen Bridge: ${result.error}`);
+          return;
+        }
+        vscode.window.setStatusBarMessage(`$(paintcan) Matugen: pushed palette applied (${result.colors} colors)`, 4000);
+      },
+    })
+  );
+
+  await syncSocket();
 
   // ── commands ──────────────────────────────────────────────────────
   context.subscriptions.push(
     vscode.commands.registerCommand("matugenBridge.applyNow", async () => {
-      const p = resolvePalettePath(getCustomPath());
-      await applyPalette(p, false);
+      await takeLead();
+      if (history?.pinned) {
+        const choice = await vscode.window.showInformationMessage(
+          "Matugen Bridge: A palette snapshot is pinned — the palette file is ignored until you unpin it.",
+          "Unpin & Apply"
+        );
+        if (choice !== "Unpin & Apply") return;
+        history.unpin();
+      }
+      if (pushed) {
+        logger.debug("Apply Palette Now — dropping the pushed palette.");
+        pushed = undefined;
+      }
+      await requestApply(false);
+    }),
+
+    vscode.commands.registerCommand("matugenBridge.previewPalette", () => {
+      const current = getManagedPalette();
+      if (Object.keys(current.colors).length === 0) {
+        vscode.window.showInformationMessage("Matugen Bridge: No palette is applied yet.");
+        return;
+      }
+      preview?.inspect({ ...current, meta: history?.current?.meta ?? {} });
+    }),
+
+    vscode.commands.registerCommand("matugenBridge.exportTheme", async () => {
+      const current = getManagedPalette();
+      if (Object.keys(current.colors).length === 0) {
+        vscode.window.showInformationMessage("Matugen Bridge: No palette is applied yet — nothing to export.");
+        return;
+      }
+      const options = await promptThemeExport(inferKind(history?.current?.meta ?? {}, current.colors) ?? "dark");
+      if (!options) return;
+
+      const built = buildThemeExport(
+        context.asAbsolutePath(`resources/themes/matugen-${options.kind}-base.json`),
+        current,
+        options
+      );
+      if (!built.ok) {
+        logger.error(built.error);
+        vscode.window.showErrorMessage(`Matugen Bridge: ${built.error}`);
+        return;
+      }
+
+      const existing = existingExportFiles(built.files, options.outputDir);
+      if (existing.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+          `Matugen Bridge: ${existing.join(" and ")} already exist(s) in ${options.outputDir}.`,
+          { modal: true },
+          "Overwrite"
+        );
+        if (choice !== "Overwrite") return;
+      }
+
+      const written = writeThemeExport(built.files);
+      if (!written.ok) {
+        logger.error(written.error);
+        vscode.window.showErrorMessage(`Matugen Bridge: ${written.error}`);
+        return;
+      }
+      logger.info(`Exported theme "${options.name}" (${options.kind}) to ${built.files.map((f) => f.path).join(", ")}.`);
+      const choice = await vscode.window.showInformationMessage(
+        `Matugen Bridge: Theme "${options.name}" exported.`,
+        "Open Theme File"
+      );
+      if (choice === "Open Theme File") {
+        await vscode.window.showTextDocument(vscode.Uri.file(built.files[0].path));
+      }
+    }),
+
+    vscode.commands.registerCommand("matugenBridge.browseHistory", async () => {
+      if (!history) return;
+      await takeLead();
+      const picked = await pickSnapshot(history, storageDir);
+      if (!picked) return;
+      if (await applySnapshot(picked.snapshot)) {
+        if (picked.action === "pin") {
+          history.pin(picked.snapshot.id);
+          vscode.window.showInformationMessage(
+            "Matugen Bridge: Palette pinned — palette file changes are ignored until you unpin."
+          );
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand("matugenBridge.rollback", async () => {
+      await takeLead();
+      const previous = history?.previous();
+      if (!previous) {
+        vscode.window.showInformationMessage("Matugen Bridge: No earlier palette in history.");
+        return;
+      }
+      await applySnapshot(previous);
+    }),
+
+    vscode.commands.registerCommand("matugenBridge.pinPalette", async () => {
+      await takeLead();
+      const current = history?.current;
+      if (!history || !current) {
+        vscode.window.showInformationMessage("Matugen Bridge: No applied palette to pin yet.");
+        return;
+      }
+      history.pin(current.id);
+      vscode.window.showInformationMessage(
+        "Matugen Bridge: Current palette pinned — palette file changes are ignored until you unpin."
+      );
+    }),
+
+    vscode.commands.registerCommand("matugenBridge.unpinPalette", async () => {
+      await takeLead();
+      if (!history?.pinned) {
+        vscode.window.showInformationMessage("Matugen Bridge: No palette is pinned.");
+        return;
+      }
+      history.unpin();
+      vscode.window.showInformationMessage("Matugen Bridge: Palette unpinned.");
+      await requestApply(true);
+    }),
+
+    vscode.commands.registerCommand("matugenBridge.pinToken", async (token?: string) => {
+      const managed = getManagedColors();
+      const picked = token ?? (
+        await vscode.window.showQuickPick(
+          Object.keys(managed).sort().map((t) => ({ label: t, description: managed[t] })),
+          { title: "Matugen: Pin Color Token", placeHolder: "Color token to freeze at its current value" }
+        )
+      )?.label;
+      if (!picked) return;
+
+      const value = managed[picked];
+      if (value === undefined) {
+        vscode.window.showInformationMessage(`Matugen Bridge: ${picked} is not a palette color — nothing to pin.`);
+        return;
+      }
+
+      // Hand the value over first; the settings change then re-applies
+      // the palette with the token filtered out
+      await pinColor(picked, value);
+      await vscode.workspace
+        .getConfiguration("matugenBridge")
+        .update("pinnedTokens", { ...getFilterSettings().pinned, [picked]: value }, vscode.ConfigurationTarget.Global);
+      vscode.window.showInformationMessage(`Matugen Bridge: ${picked} pinned at ${value}.`);
+    }),
+
+    vscode.commands.registerCommand("matugenBridge.unpinToken", async (token?: string) => {
+      const pinned = getFilterSettings().pinned;
+      if (Object.keys(pinned).length === 0) {
+        vscode.window.showInformationMessage("Matugen Bridge: No color tokens are pinned.");
+        return;
+      }
+      const picked = token ?? (
+        await vscode.window.showQuickPick(
+          Object.keys(pinned).sort().map((t) => ({ label: t, description: pinned[t] })),
+          { title: "Matugen: Unpin Color Token", placeHolder: "Color token to hand back to the palette" }
+        )
+      )?.label;
+      if (!picked || !(picked in pinned)) return;
+
+      await unpinColor(picked, pinned[picked]);
+      const rest = { ...pinned };
+      delete rest[picked];
+      await vscode.workspace
+        .getConfiguration("matugenBridge")
+        .update("pinnedTokens", Object.keys(rest).length > 0 ? rest : undefined, vscode.ConfigurationTarget.Global);
+      vscode.window.showInformationMessage(`Matugen Bridge: ${picked} unpinned.`);
     }),
 
     vscode.commands.registerCommand("matugenBridge.clearOverrides", async () => {
+      await transition.cancel();
       await clearColors();
       vscode.window.showInformationMessage("Matugen Bridge: Color overrides cleared.");
     }),
 
     vscode.commands.registerCommand("matugenBridge.showStatus", () => {
       const status = getManagedStatus();
-      const p = resolvePalettePath(getCustomPath());
-      if (status.count === 0) {
+      const drift = findColorDrift();
+      const workspaceDrift = vscode.workspace.workspaceFolders?.length
+        ? findColorDrift(vscode.ConfigurationTarget.Workspace)
+        : [];
+      const watching = describeLayers();
+      if (status.count === 0 && status.tokenColorCount === 0 &&
+          status.semanticTokenColorCount === 0 && status.workspaceCount === 0) {
         vscode.window.showInformationMessage(
-          `Matugen Bridge: No active overrides.\nWatching: ${p}`
+          `Matugen Bridge: No active overrides.\nWatching:\n${watching}`
         );
       } else {
         vscode.window.showInformationMessage(
-          `Matugen Bridge: ${status.count} color(s) active\n` +
+          `Matugen Bridge: ${status.count} color(s), ` +
+          `${status.tokenColorCount} token color rule(s), ` +
+          `${status.semanticTokenColorCount} semantic rule(s) active\n` +
+          `Scope: ${status.scopes.length > 0 ? status.scopes.join(", ") : "global"}\n` +
+          (status.workspaceCount > 0 ? `Workspace layer: ${status.workspaceCount} color(s)\n` : "") +
+          `Filtered out: ${filterStats.include} by include, ${filterStats.exclude} by exclude, ` +
+          `${filterStats.pinned} pinned\n` +
+          (drift.length > 0 ? `Edited by hand: ${describeDrift(drift)}\n` : "") +
+          (workspaceDrift.length > 0 ? `Edited by hand (workspace): ${describeDrift(workspaceDrift)}\n` : "") +
+          (history?.pinned ? `Pinned snapshot: ${history.pinned.savedAt}\n` : "") +
           `Last applied: ${status.appliedAt ?? "unknown"}\n` +
-          `Watching: ${p}`
+          `Windows: ${describeRole()}\n` +
+          `Watching:\n${watching}`
         );
       }
       logger.show();
@@ -119,19 +1044,62 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   );
 
   // ── react to config changes ───────────────────────────────────────
-  // If the user changes palettePath or debounceMs, restart the watcher
+  // If the user changes a layer path or debounceMs, restart the watchers
   // and re-apply immediately. No restart needed.
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration(async (e) => {
       if (e.affectsConfiguration("matugenBridge")) {
-        logger.debug("Configuration changed — reinitialising watcher.");
-        palettePath = resolvePalettePath(getCustomPath());
-        watcher.start(palettePath);
+        logger.debug("Configuration changed — reinitialising watchers.");
+        if (e.affectsConfiguration("matugenBridge.coordinateWindows")) {
+          await startCoordination();
+        }
+        startWatchers();
+        diagnostics.refresh();
+
+        if (e.affectsConfiguration("matugenBridge.socketPath") ||
+            e.affectsConfiguration("matugenBridge.coordinateWindows")) {
+          await syncSocket();
+        }
+
+        // Pointing at another palette file supersedes a pushed palette
+        if (e.affectsConfiguration("matugenBridge.palettePath") ||
+            e.affectsConfiguration("matugenBridge.format")) {
+          pushed = undefined;
+        }
+
+        if (e.affectsConfiguration("matugenBridge.historySize")) {
+          history?.setMaxEntries(getHistorySize());
+        }
+
+        // Moving between global and theme-scoped layout only relocates
+        // what we already own — no need to re-read the palette
+        if (e.affectsConfiguration("matugenBridge.writeScope") ||
+            e.affectsConfiguration("matugenBridge.scopedThemes")) {
+          try {
+            await migrateManagedLayout();
+          } catch (err) {
+            logger.error(`Failed to migrate managed colors: ${(err as Error).message}`);
+          }
+        }
 
         if (e.affectsConfiguration("matugenBridge.enabled") ||
-            e.affectsConfiguration("matugenBridge.palettePath")) {
+            e.affectsConfiguration("matugenBridge.coordinateWindows") ||
+            e.affectsConfiguration("matugenBridge.palettePath") ||
+            e.affectsConfiguration("matugenBridge.format") ||
+            e.affectsConfiguration("matugenBridge.overridesPath") ||
+            e.affectsConfiguration("matugenBridge.workspaceOverridesPath") ||
+            e.affectsConfiguration("matugenBridge.schemeMode") ||
+            e.affectsConfiguration("matugenBridge.roleOverrides") ||
+            e.affectsConfiguration("matugenBridge.generateTerminalColors") ||
+            e.affectsConfiguration("matugenBridge.include") ||
+            e.affectsConfiguration("matugenBridge.exclude") ||
+            e.affectsConfiguration("matugenBridge.pinnedTokens") ||
+            e.affectsConfiguration("matugenBridge.contrastMode") ||
+            e.affectsConfiguration("matugenBridge.contrastMinRatio") ||
+            e.affectsConfiguration("matugenBridge.autoSwitchTheme") ||
+            e.affectsConfiguration("matugenBridge.variantThemes")) {
           if (isEnabled()) {
-            await applyPalette(palettePath, true);
+            await requestApply(true);
           } else {
             logger.info("Extension disabled by configuration.");
           }
@@ -140,8 +1108,47 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     })
   );
 
+  // ── react to theme changes ────────────────────────────────────────
+  // Multi-variant palettes (and matugen's raw scheme) use the variant that
+  // matches the active theme kind, so toggling themes — or OS auto-detect
+  // via window.autoDetectColorScheme — swaps the palette immediately.
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveColorTheme(async () => {
+      const variant = getVariant();
+      if (variant === appliedVariant) return;
+      logger.debug(`Color theme kind changed — re-applying "${variant}" variant.`);
+      await requestApply(true);
+    })
+  );
+
+  // ── react to workspace folder changes ─────────────────────────────
+  // The workspace layer lives in the first folder; adding or removing
+  // folders can move or drop it.
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+      startWatchers();
+      diagnostics.refresh();
+      await requestApply(true);
+    })
+  );
+
+  // ── public API ────────────────────────────────────────────────────
+  // For other extensions: the live palette, apply events and pushes.
+  // A push through the API leaves the lead where it is: the caller may be
+  // a background extension, not the window the user is working in.
+  const api = new BridgeApi(
+    applyPush,
+    () => {
+      // Only the leader records history — a follower's copy may be stale
+      if (!isLeader()) history?.reload();
+      return history?.current?.meta ?? {};
+    }
+  );
+  context.subscriptions.push(api);
+
   context.subscriptions.push(logger);
-  logger.info(`Matugen Theme Bridge active. Watching: ${palettePath}`);
+  logger.info(`Matugen Theme Bridge active. Watching: ${getLayers().map((l) => l.path).join(", ")}`);
+  return api;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -149,6 +1156,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function deactivate(): void {
+  void transition.cancel();
   // VS Code disposes all context.subscriptions automatically.
   // Colors remain in settings.json intentionally — the user can
   // run "Matugen: Clear Color Overrides" to remove them manually.
@@ -0,0 +1,81 @@
+// src/importers/base16.ts
+// base16 and base24 scheme files (YAML). Both the classic layout and the
+// tinted-theming one with a nested "palette:" block are accepted:
+//
+//   scheme: "Tomorrow Night"          system: "base24"
+//   base00: "1d1f21"                  name: "One Dark"
+//   …                                 variant: "dark"
+//                                     palette:
+//                                       base00: "#282c34"
+//
+// Only flat "key: value" lines are read — enough for scheme files without
+// pulling in a YAML parser.
+//
+// Slots follow the base16 styling guidelines and base16-shell's terminal
+// mapping; base24's base12–base17 supply the bright terminal colors.
+
+import type { ImportedScheme, SchemeMode } from "../types";
+import type { ImportResult, PaletteImporter } from "./index";
+
+const SLOT_RE = /^\s*(base[0-9a-fA-F]{2})\s*:\s*["']?#?([0-9a-fA-F]{6})["']?\s*(#.*)?$/;
+const FIELD_RE = /^\s*(scheme|name|variant)\s*:\s*["']?(.*?)["']?\s*$/;
+
+const BASE16_SLOTS = Array.from({ length: 16 }, (_, i) => `base0${i.toString(16).toUpperCase()}`);
+
+export const base16Importer: PaletteImporter = {
+  format: "base16",
+
+  detect(fileName) {
+    return fileName.endsWith(".yaml") || fileName.endsWith(".yml");
+  },
+
+  parse(raw): ImportResult {
+    const slots = new Map<string, string>();
+    let name: string | undefined;
+    let variant: SchemeMode | undefined;
+
+    for (const line of raw.split(/\r?\n/)) {
+      const slot = SLOT_RE.exec(line);
+      if (slot) {
+        slots.set(slot[1].slice(0, 4) + slot[1].slice(4).toUpperCase(), `#${slot[2].toLowerCase()}`);
+        continue;
+      }
+      const field = FIELD_RE.exec(line);
+      if (!field) continue;
+      if (field[1] === "variant") {
+        if (field[2] === "dark" || field[2] === "light") variant = field[2];
+      } else {
+        name = field[2];
+      }
+    }
+
+    const missing = BASE16_SLOTS.filter((s) => !slots.has(s));
+    if (missing.length > 0) {
+      return { ok: false, error: `base16 scheme is missing ${missing.join(", ")}.` };
+    }
+
+    const b = (s: string): string => slots.get(s)!;
+    // base24 bright colors when present, base16's normal ones otherwise
+    const b24 = (s: string, fallback: string): string => slots.get(s) ?? b(fallback);
+
+    const scheme: ImportedScheme = {
+      background: b("base00"),
+      foreground: b("base05"),
+      ansi: [
+        b("base00"), b("base08"), b("base0B"), b("base0A"),
+        b("base0D"), b("base0E"), b("base0C"), b("base05"),
+        b("base03"), b24("base12", "base08"), b24("base14", "base0B"), b24("base13", "base0A"),
+        b24("base16", "base0D"), b24("base17", "base0E"), b24("base15", "base0C"), b("base07"),
+      ],
+      accent: b("base0D"),
+      cursor: b("base05"),
+      surfaceLow: b("base01"),
+      selection: b("base02"),
+      comment: b("base03"),
+      muted: b("base04"),
+      name,
+      variant,
+    };
+    return { ok: true, scheme };
+  },
+};
@@ -0,0 +1,147 @@
+// src/importers/gtk.ts
+// GTK CSS color definitions — gtk.css, libadwaita overrides, or the
+// colors file a GTK theme (or matugen's gtk template) ships:
+//
+//   @define-color accent_bg_color #8caaee;
+//   @define-color view_bg_color   @window_bg_color;
+//   @define-color borders         alpha(@window_fg_color, 0.15);
+//
+// Values may be CSS colors, "@name" references, or alpha() / mix() /
+// shade(). shade() scales OKLCH lightness, close to what GTK does.
+//
+// Both the libadwaita names (window_bg_color, accent_bg_color, …) and the
+// GTK 3 ones (theme_bg_color, theme_selected_bg_color, …) are recognised.
+
+import type { ImportedScheme } from "../types";
+import { adjustLightness, mixColors, rgbToOklch, toHex } from "../utils/color";
+import type { RGBA } from "../utils/color";
+import { parseCssColor } from "../utils/cssColor";
+import { logger } from "../utils/logger";
+import type { ImportResult, PaletteImporter } from "./index";
+
+const DEFINE_RE = /@define-color\s+([\w-]+)\s+([^;]+);/g;
+const CALL_RE = /^(alpha|mix|shade)\s*\((.*)\)$/s;
+
+/** Splits "a, b(c, d), e" on top-level commas */
+function splitArgs(body: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "(") depth++;
+    else if (body[i] === ")") depth--;
+    else if (body[i] === "," && depth === 0) {
+      args.push(body.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  args.push(body.slice(start).trim());
+  return args;
+}
+
+/** Resolves every definition it can; unresolvable ones are left out */
+function resolveDefinitions(defs: Map<string, string>): Map<string, RGBA> {
+  const resolved = new Map<string, RGBA>();
+  const stack: string[] = [];
+
+  const evaluate = (expr: string): RGBA | undefined => {
+    expr = expr.trim();
+    if (expr.startsWith("@")) return lookup(expr.slice(1));
+
+    const call = CALL_RE.exec(expr);
+    if (call) {
+      const args = splitArgs(call[2]);
+      const num = (s: string | undefined): number => (s === undefined ? NaN : parseFloat(s));
+      switch (call[1]) {
+        case "alpha": {
+          const c = evaluate(args[0]);
+          const a = num(args[1]);
+          return c && !isNaN(a) ? { ...c, a: Math.min(1, Math.max(0, c.a * a)) } : undefined;
+        }
+        case "mix": {
+          const a = evaluate(args[0]);
+          const b = args[1] !== undefined ? evaluate(args[1]) : undefined;
+          const t = num(args[2]);
+          return a && b && !isNaN(t) ? mixColors(a, b, t) : undefined;
+        }
+        case "shade": {
+          const c = evaluate(args[0]);
+          const f = num(args[1]);
+          return c && !isNaN(f) ? adjustLightness(c, rgbToOklch(c).L * (f - 1)) : undefined;
+        }
+      }
+    }
+
+    const parsed = parseCssColor(expr);
+    return parsed.ok ? parsed.color : undefined;
+  };
+
+  const lookup = (name: string): RGBA | undefined => {
+    const cached = resolved.get(name);
+    if (cached) return cached;
+    const expr = defs.get(name);
+    if (expr === undefined || stack.includes(name)) return undefined;
+
+    stack.push(name);
+    try {
+      const c = evaluate(expr);
+      if (c) resolved.set(name, c);
+      else logger.debug(`GTK: cannot resolve @${name}: ${expr}`);
+      return c;
+    } finally {
+      stack.pop();
+    }
+  };
+
+  for (const name of defs.keys()) lookup(name);
+  return resolved;
+}
+
+export const gtkImporter: PaletteImporter = {
+  format: "gtk",
+
+  detect(fileName) {
+    return fileName.endsWith(".css");
+  },
+
+  parse(raw): ImportResult {
+    const defs = new Map<string, string>();
+    const text = raw.replace(/\/\*[\s\S]*?\*\//g, "");
+    for (const m of text.matchAll(DEFINE_RE)) defs.set(m[1], m[2]);
+    if (defs.size === 0) return { ok: false, error: "GTK CSS file has no @define-color lines." };
+
+    const colors = resolveDefinitions(defs);
+    // First defined name wins: libadwaita, then GTK 3
+    const pick = (...names: string[]): string | undefined => {
+      for (const n of names) {
+        const c = colors.get(n);
+        if (c) return toHex(c);
+      }
+      return undefined;
+    };
+
+    const background = pick("view_bg_color", "window_bg_color", "theme_base_color", "theme_bg_color");
+    const foreground = pick("view_fg_color", "window_fg_color", "theme_text_color", "theme_fg_color");
+    if (!background || !foreground) {
+      return { ok: false, error: "GTK CSS defines no window / view background and foreground colors." };
+    }
+
+    const accent = pick("accent_bg_color", "accent_color", "theme_selected_bg_color");
+    const ansi: (string | undefined)[] = new Array(16).fill(undefined);
+    ansi[1] = pick("error_color", "destructive_color", "error_bg_color", "destructive_bg_color");
+    ansi[2] = pick("success_color", "success_bg_color");
+    ansi[3] = pick("warning_color", "warning_bg_color");
+    ansi[4] = accent;
+
+    const scheme: ImportedScheme = {
+      background,
+      foreground,
+      ansi,
+      accent,
+      surfaceLow: pick("headerbar_bg_color", "sidebar_bg_color", "window_bg_color", "theme_bg_color"),
+      surfaceHigh: pick("card_bg_color", "popover_bg_color"),
+    };
+    if (scheme.surfaceLow === background) delete scheme.surfaceLow;
+    return { ok: true, scheme };
+  },
+};
@@ -0,0 +1,60 @@
+// src/importers/index.ts
+// Registry of importers for color scheme formats other than the VS Code
+// token JSON. Each importer reduces its format to an ImportedScheme; the
+// shared role mapping in roles.ts turns that into tokens.
+//
+// The importer is chosen by matugenBridge.format, or — when that is
+// "auto" — by the first importer whose detect() accepts the file. Files
+// no importer claims are read as VS Code token JSON, as before.
+//
+// To add a format: write an importer next to these, add its name to
+// PALETTE_FORMATS in types.ts and append it to IMPORTERS.
+
+import * as path from "path";
+import type { ImportedScheme, PaletteFormat, PaletteReadResult } from "../types";
+import { base16Importer } from "./base16";
+import { gtkImporter } from "./gtk";
+import { pywalImporter } from "./pywal";
+import { schemeToPalette } from "./roles";
+import { xresourcesImporter } from "./xresources";
+
+export type ImportResult =
+  | { ok: true; scheme: ImportedScheme }
+  | { ok: false; error: string };
+
+export interface PaletteImporter {
+  /** matugenBridge.format value that selects this importer */
+  format: Exclude<PaletteFormat, "auto" | "vscode">;
+  /** Whether "auto" should use this importer — `fileName` is the lower-case base name */
+  detect(fileName: string, raw: string): boolean;
+  /** Parses the file. Never throws. */
+  parse(raw: string): ImportResult;
+}
+
+/** Tried in order by "auto" */
+const IMPORTERS: readonly PaletteImporter[] = [
+  pywalImporter,
+  base16Importer,
+  xresourcesImporter,
+  gtkImporter,
+];
+
+/** The importer for this file, or undefined when it is VS Code token JSON */
+export function selectImporter(filePath: string, raw: string, format: PaletteFormat): PaletteImporter | undefined {
+  if (format === "vscode") return undefined;
+  if (format !== "auto") return IMPORTERS.find((i) => i.format === format);
+
+  const fileName = path.basename(filePath).toLowerCase();
+  return IMPORTERS.find((i) => i.detect(fileName, raw));
+}
+
+/** Runs `importer` and maps the scheme onto VS Code tokens. Never throws. */
+export function importPalette(
+  importer: PaletteImporter,
+  raw: string,
+  roleOverrides: Record<string, string> = {}
+): PaletteReadResult {
+  const result = importer.parse(raw);
+  if (!result.ok) return result;
+  return { ok: true, ...schemeToPalette(result.scheme, importer.format, roleOverrides) };
+}
@@ -0,0 +1,63 @@
+// src/importers/pywal.ts
+// pywal's ~/.cache/wal/colors.json:
+//
+//   {
+//     "wallpaper": "/path/to/image.jpg",
+//     "special": { "background": "#…", "foreground": "#…", "cursor": "#…" },
+//     "colors":  { "color0": "#…", …, "color15": "#…" }
+//   }
+
+import type { ImportedScheme } from "../types";
+import { normalizeColor } from "../utils/cssColor";
+import type { ImportResult, PaletteImporter } from "./index";
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function looksLikePywal(parsed: unknown): parsed is { special: Record<string, unknown>; colors: Record<string, unknown> } {
+  return isPlainObject(parsed) && isPlainObject(parsed.special) && isPlainObject(parsed.colors) &&
+    "color0" in parsed.colors;
+}
+
+/** Normalized color, or undefined for anything missing or unparseable */
+function color(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const result = normalizeColor(value);
+  return result.ok ? result.hex : undefined;
+}
+
+export const pywalImporter: PaletteImporter = {
+  format: "pywal",
+
+  detect(fileName, raw) {
+    if (!fileName.endsWith(".json")) return false;
+    try {
+      return looksLikePywal(JSON.parse(raw));
+    } catch {
+      return false;
+    }
+  },
+
+  parse(raw): ImportResult {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (e) {
+      return { ok: false, error: `pywal colors.json is malformed: ${(e as Error).message}` };
+    }
+    if (!looksLikePywal(parsed)) {
+      return { ok: false, error: `Not a pywal colors.json: expected "special" and "colors.color0"…"color15".` };
+    }
+
+    const ansi = Array.from({ length: 16 }, (_, i) => color(parsed.colors[`color${i}`]));
+    const background = color(parsed.special.background) ?? ansi[0];
+    const foreground = color(parsed.special.foreground) ?? ansi[7];
+    if (!background || !foreground) {
+      return { ok: false, error: "pywal colors.json has no usable background / foreground." };
+    }
+
+    const scheme: ImportedScheme = { background, foreground, ansi, cursor: color(parsed.special.cursor) };
+    return { ok: true, scheme };
+  },
+};
@@ -0,0 +1,131 @@
+// src/importers/roles.ts
+// Turns an ImportedScheme into Material You roles, so imported schemes go
+// through the same DEFAULT_ROLE_MAP (and matugenBridge.roleOverrides) as
+// matugen's raw output — one token mapping to maintain, not one per format.
+//
+// Roles come from the terminal slots by convention:
+//   primary   ← accent, else blue      secondary ← cyan
+//   tertiary  ← green                  error     ← red
+//   tertiary_fixed_dim (types) ← yellow, primary_fixed (operators) ← magenta
+// Surfaces and outlines are mixed between background and foreground in
+// OKLab; containers are the accent mixed most of the way into the surface.
+
+import type { ColorMap, ImportedScheme, ParsedPalette, RoleScheme } from "../types";
+import { mapRoleScheme } from "../engine/roleMapping";
+import { contrastRatio, mixColors, oklchToRgb, parseHex, relativeLuminance, toHex } from "../utils/color";
+import { logger } from "../utils/logger";
+
+const ANSI_NAMES = [
+  "Black", "Red", "Green", "Yellow", "Blue", "Magenta", "Cyan", "White",
+  "BrightBlack", "BrightRed", "BrightGreen", "BrightYellow",
+  "BrightBlue", "BrightMagenta", "BrightCyan", "BrightWhite",
+] as const;
+
+/** Conventional OKLCH hue of each chromatic slot, for schemes that lack it */
+const FALLBACK_HUES: Readonly<Record<number, number>> = {
+  1: 25, 2: 145, 3: 90, 4: 255, 5: 330, 6: 200,
+};
+
+function mix(a: string, b: string, t: number): string {
+  return toHex(mixColors(parseHex(a)!, parseHex(b)!, t));
+}
+
+/** Background or foreground, whichever reads better on `color` */
+function onColor(color: string, bg: string, fg: string): string {
+  const c = parseHex(color)!;
+  return contrastRatio(c, parseHex(bg)!) >= contrastRatio(c, parseHex(fg)!) ? bg : fg;
+}
+
+export function isDarkScheme(scheme: ImportedScheme): boolean {
+  if (scheme.variant) return scheme.variant === "dark";
+  return relativeLuminance(parseHex(scheme.background)!) < relativeLuminance(parseHex(scheme.foreground)!);
+}
+
+/** Derives every role DEFAULT_ROLE_MAP and the token rules refer to */
+export function deriveRoles(scheme: ImportedScheme): RoleScheme {
+  const bg = scheme.background;
+  const fg = scheme.foreground;
+  const dark = isDarkScheme(scheme);
+
+  // Normal slot, else its bright twin, else a conventional hue at a readable lightness
+  const slot = (i: number): string =>
+    scheme.ansi[i] ?? scheme.ansi[i + 8] ??
+    toHex(oklchToRgb({ L: dark ? 0.72 : 0.5, C: 0.12, h: FALLBACK_HUES[i] }));
+  const bright = (i: number): string => scheme.ansi[i + 8] ?? slot(i);
+
+  const red = slot(1);
+  const green = slot(2);
+  const cyan = slot(6);
+  const primary = scheme.accent ?? slot(4);
+  const container = (c: string): string => mix(c, bg, 0.65);
+  const onContainer = (c: string): string => mix(fg, c, 0.25);
+
+  return {
+    surface: bg,
+    surface_container_lowest: mix(bg, dark ? "#000000" : "#ffffff", dark ? 0.25 : 0.6),
+    surface_container_low: scheme.surfaceLow ?? mix(bg, fg, 0.04),
+    surface_container: mix(bg, fg, 0.07),
+    surface_container_high: scheme.surfaceHigh ?? mix(bg, fg, 0.11),
+    surface_container_highest: scheme.selection ?? mix(bg, fg, 0.16),
+    on_surface: fg,
+    on_surface_variant: scheme.muted ?? mix(fg, bg, 0.3),
+    outline: scheme.comment ?? mix(fg, bg, 0.5),
+    outline_variant: mix(fg, bg, 0.75),
+    shadow: "#000000",
+
+    primary,
+    on_primary: onColor(primary, bg, fg),
+    primary_container: container(primary),
+    on_primary_container: onContainer(primary),
+    primary_fixed: slot(5),
+    primary_fixed_dim: bright(4),
+
+    secondary: cyan,
+    secondary_container: container(cyan),
+    on_secondary_container: onContainer(cyan),
+    secondary_fixed: bright(6),
+
+    tertiary: green,
+    on_tertiary: onColor(green, bg, fg),
+    tertiary_container: container(green),
+    on_tertiary_container: onContainer(green),
+    tertiary_fixed_dim: slot(3),
+
+    error: red,
+    on_error: onColor(red, bg, fg),
+    error_container: container(red),
+    on_error_container: onContainer(red),
+  };
+}
+
+/**
+ * Maps an imported scheme onto VS Code tokens. The scheme's own terminal
+ * colors and cursor are used as they are; everything else goes through
+ * the role mapping.
+ */
+export function schemeToPalette(
+  scheme: ImportedScheme,
+  source: string,
+  roleOverrides: Record<string, string> = {}
+): ParsedPalette {
+  const mapped = mapRoleScheme(deriveRoles(scheme), roleOverrides);
+
+  const terminal: ColorMap = {};
+  scheme.ansi.forEach((hex, i) => {
+    if (hex !== undefined && i < ANSI_NAMES.length) terminal[`terminal.ansi${ANSI_NAMES[i]}`] = hex;
+  });
+  if (scheme.cursor) terminal["terminalCursor.foreground"] = scheme.cursor;
+
+  const variant = isDarkScheme(scheme) ? "dark" : "light";
+  logger.debug(
+    `${source} scheme imported: ${scheme.ansi.filter((c) => c !== undefined).length} terminal color(s), ` +
+    `${variant} → ${Object.keys(mapped.colors).length + Object.keys(terminal).length} token(s).`
+  );
+
+  return {
+    colors: { ...mapped.colors, ...terminal },
+    tokenColors: mapped.tokenColors,
+    semanticTokenColors: mapped.semanticTokenColors,
+    meta: { source, variant, ...(scheme.name ? { name: scheme.name } : {}) },
+  };
+}
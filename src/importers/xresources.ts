@@ -0,0 +1,65 @@
+// src/importers/xresources.ts
+// X resource files (~/.Xresources, ~/.Xdefaults, pywal's colors.Xresources):
+//
+//   ! comment
+//   #define base00 #1d1f21
+//   *background:   base00
+//   *.foreground:  #c5c8c6
+//   URxvt*color4:  #81a2be
+//   *cursorColor:  #c5c8c6
+//
+// Only the resource name's last component matters, so "*color4",
+// "*.color4" and "URxvt.color4" are all color4. Later lines win, like xrdb.
+
+import type { ImportedScheme } from "../types";
+import { normalizeColor } from "../utils/cssColor";
+import { logger } from "../utils/logger";
+import type { ImportResult, PaletteImporter } from "./index";
+
+const DEFINE_RE = /^#define\s+(\w+)\s+(\S+)/;
+const RESOURCE_RE = /^([\w.*-]+)\s*:\s*(.*?)\s*$/;
+
+export const xresourcesImporter: PaletteImporter = {
+  format: "xresources",
+
+  detect(fileName) {
+    return /(^|[./])(xresources|xdefaults)$/.test(fileName);
+  },
+
+  parse(raw): ImportResult {
+    const defines = new Map<string, string>();
+    const resources = new Map<string, string>();
+
+    for (const rawLine of raw.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (line === "" || line.startsWith("!")) continue;
+
+      const define = DEFINE_RE.exec(line);
+      if (define) { defines.set(define[1], define[2]); continue; }
+      if (line.startsWith("#")) continue; // other preprocessor lines
+
+      const m = RESOURCE_RE.exec(line);
+      if (!m) continue;
+      const name = m[1].split(/[.*]/).pop()!.toLowerCase();
+      resources.set(name, defines.get(m[2]) ?? m[2]);
+    }
+
+    const color = (name: string): string | undefined => {
+      const value = resources.get(name);
+      if (value === undefined) return undefined;
+      const result = normalizeColor(value);
+      if (!result.ok) logger.debug(`Xresources: ignoring ${name} — ${result.reason}`);
+      return result.ok ? result.hex : undefined;
+    };
+
+    const ansi = Array.from({ length: 16 }, (_, i) => color(`color${i}`));
+    const background = color("background") ?? ansi[0];
+    const foreground = color("foreground") ?? ansi[7];
+    if (!background || !foreground) {
+      return { ok: false, error: "Xresources file defines no background / foreground (nor color0 / color7)." };
+    }
+
+    const scheme: ImportedScheme = { background, foreground, ansi, cursor: color("cursorcolor") };
+    return { ok: true, scheme };
+  },
+};
@@ -0,0 +1,82 @@
+// src/push/payload.ts
+// Turns the parameters of a push — from a vscode:// URI or a socket
+// request — into a PalettePush. The palette itself is not validated here;
+// that is the reader's job, the same as for the watched file.
+//
+// Parameters:
+//   path=<file>     read this file (absolute, ~ allowed)
+//   data=<payload>  inline palette: base64 / base64url, or raw JSON
+//   format=<name>   one of PALETTE_FORMATS, default "auto"
+//   name=<file>     file name used to detect the format of inline payloads
+// The socket takes the payload as the request body instead of `data`.
+
+import * as os from "os";
+import * as path from "path";
+import { PALETTE_FORMATS } from "../types";
+import type { PaletteFormat, PalettePush } from "../types";
+
+/** Largest inline payload accepted, in bytes */
+export const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+export type PushDecodeResult =
+  | { ok: true; push: PalettePush }
+  | { ok: false; error: string };
+
+function isFormat(v: string): v is PaletteFormat {
+  return (PALETTE_FORMATS as readonly string[]).includes(v);
+}
+
+/** Raw JSON is taken as-is; anything else must be base64 */
+function decodeData(data: string): string | undefined {
+  const trimmed = data.trim();
+  if (trimmed.startsWith("{")) return trimmed;
+  // An unescaped "+" in a query string arrives as a space
+  const decoded = Buffer.from(trimmed.replace(/ /g, "+"), "base64").toString("utf8");
+  return decoded.trim() === "" ? undefined : decoded;
+}
+
+/**
+ * Builds a push from its parameters. `body` is the socket request body;
+ * pass undefined for URIs. Never throws.
+ */
+export function decodePush(
+  params: URLSearchParams,
+  body: string | undefined,
+  via: PalettePush["via"]
+): PushDecodeResult {
+  const format = params.get("format") ?? "auto";
+  if (!isFormat(format)) {
+    return { ok: false, error: `Unknown format "${format}" — expected one of ${PALETTE_FORMATS.join(", ")}.` };
+  }
+
+  const file = params.get("path");
+  const data = params.get("data");
+  const inline = body !== undefined && body.trim() !== "" ? body : data;
+
+  if (file !== null && inline !== null) {
+    return { ok: false, error: "Give either a path or an inline palette, not both." };
+  }
+
+  if (file !== null) {
+    const expanded = file.startsWith("~") ? path.join(os.homedir(), file.slice(1)) : file;
+    if (!path.isAbsolute(expanded)) {
+      return { ok: false, error: `Palette path must be absolute: ${file}` };
+    }
+    return { ok: true, push: { path: expanded, format, via } };
+  }
+
+  if (inline === null) {
+    return { ok: false, error: "Nothing to apply — pass path=… or a palette payload." };
+  }
+
+  const content = inline === data ? decodeData(inline) : inline;
+  if (content === undefined) {
+    return { ok: false, error: "The inline palette is empty or not valid base64." };
+  }
+  if (Buffer.byteLength(content, "utf8") > MAX_PAYLOAD_BYTES) {
+    return { ok: false, error: `The inline palette is larger than ${MAX_PAYLOAD_BYTES} bytes.` };
+  }
+
+  const name = path.basename(params.get("name") ?? "") || "push.json";
+  return { ok: true, push: { path: name, content, format, via } };
+}
@@ -0,0 +1,204 @@
+// src/push/socketServer.ts
+// Optional local endpoint for pushing palettes without touching a file.
+//
+// Listens on a Unix domain socket (matugenBridge.socketPath) and speaks
+// plain HTTP, so a matugen post-hook can use curl:
+//
+//   curl --unix-socket "$XDG_RUNTIME_DIR/matugen-bridge.sock" \
+//        --data-binary @vscode-palette.json http://localhost/apply
+//
+// Only POST /apply exists. It takes the parameters of payload.ts in the
+// query string and the palette as the body, and answers with the
+// PushResult as JSON: 200 when applied, 400 for a malformed request, 422
+// when the palette was rejected.
+//
+// Every window of the editor runs the extension, but only one can own the
+// socket — the leading window (see coordination/windowLease.ts), or with
+// coordination off, the first to start. Any other finds it taken and stays
+// quiet — a push lands in user settings, which every window shares. A
+// socket file left behind by a crashed window is detected (nobody
+// answers) and replaced.
+
+import * as fs from "fs";
+import * as http from "http";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import type { PalettePush, PushResult } from "../types";
+import { logger } from "../utils/logger";
+import { MAX_PAYLOAD_BYTES, decodePush } from "./payload";
+
+type PushHandler = (push: PalettePush) => Promise<PushResult>;
+
+function listen(server: http.Server, socketPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = (e: Error): void => {
+      server.off("listening", onListening);
+      reject(e);
+    };
+    const onListening = (): void => {
+      server.off("error", onError);
+      resolve();
+    };
+    server.once("error", onError);
+    server.once("listening", onListening);
+    server.listen(socketPath);
+  });
+}
+
+/** Whether some process is accepting connections on `socketPath` */
+function isSocketAlive(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = net.connect(socketPath);
+    probe.once("connect", () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once("error", () => resolve(false));
+  });
+}
+
+/**
+ * Reads the request body. Resolves undefined once it grows past
+ * MAX_PAYLOAD_BYTES — reading stops there — and rejects when the client
+ * goes away before the end.
+ */
+function readBody(req: http.IncomingMessage): Promise<Buffer | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer): void => {
+      size += chunk.length;
+      if (size > MAX_PAYLOAD_BYTES) {
+        req.off("data", onData);
+        req.pause();
+        resolve(undefined);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.once("end", () => resolve(Buffer.concat(chunks)));
+    req.once("error", reject);
+    // After "end" this changes nothing — the promise has settled
+    req.once("close", () => reject(new Error("The client disconnected before sending the whole palette.")));
+  });
+}
+
+function reply(res: http.ServerResponse, status: number, result: PushResult): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(result) + "\n");
+}
+
+export class PaletteSocketServer implements vscode.Disposable {
+  private server: http.Server | undefined;
+  private socketPath = "";
+
+  constructor(private readonly onPush: PushHandler) {}
+
+  get listening(): boolean {
+    return this.server !== undefined;
+  }
+
+  /**
+   * Starts (or restarts) listening on `configuredPath` (~ allowed); an
+   * empty path just stops. Failures are logged — never throws.
+   */
+  async start(configuredPath: string): Promise<void> {
+    await this.stop();
+    const trimmed = configuredPath.trim();
+    if (trimmed === "") return;
+    const socketPath = trimmed.startsWith("~") ? path.join(os.homedir(), trimmed.slice(1)) : trimmed;
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((e) => {
+        logger.error(`Push socket request failed: ${(e as Error).message}`);
+        if (!res.headersSent) reply(res, 500, { ok: false, error: (e as Error).message });
+        else res.destroy();
+      });
+    });
+    try {
+      fs.mkdirSync(path.dirname(socketPath), { recursive: true });
+      try {
+        await listen(server, socketPath);
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "EADDRINUSE") throw e;
+        if (await isSocketAlive(socketPath)) {
+          logger.info(`Push socket ${socketPath} is served by another window — not listening here.`);
+          return;
+        }
+        logger.debug(`Removing stale push socket ${socketPath}.`);
+        fs.unlinkSync(socketPath);
+        await listen(server, socketPath);
+      }
+      fs.chmodSync(socketPath, 0o600);
+    } catch (e) {
+      logger.error(`Cannot listen on push socket ${socketPath}: ${(e as Error).message}`);
+      return;
+    }
+
+    this.server = server;
+    this.socketPath = socketPath;
+    logger.info(`Listening for pushed palettes on ${socketPath}.`);
+  }
+
+  /** Stops listening; the socket file is removed */
+  stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return Promise.resolve();
+    this.server = undefined;
+    logger.debug(`Push socket ${this.socketPath} closed.`);
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(req.url ?? "/", "http://localhost");
+    } catch {
+      reply(res, 400, { ok: false, error: `Malformed request URL: ${req.url}` });
+      return;
+    }
+    if (url.pathname !== "/apply") {
+      reply(res, 404, { ok: false, error: `Unknown endpoint ${url.pathname} — use POST /apply.` });
+      return;
+    }
+    if (req.method !== "POST") {
+      reply(res, 405, { ok: false, error: "Use POST /apply." });
+      return;
+    }
+
+    let body: Buffer | undefined;
+    try {
+      body = await readBody(req);
+    } catch (e) {
+      logger.debug(`Push socket: ${(e as Error).message}`);
+      return;
+    }
+    if (body === undefined) {
+      // Answer first; the rest of the upload is dropped with the connection
+      res.setHeader("Connection", "close");
+      res.once("finish", () => req.destroy());
+      reply(res, 413, { ok: false, error: `The palette is larger than ${MAX_PAYLOAD_BYTES} bytes.` });
+      return;
+    }
+
+    const decoded = decodePush(url.searchParams, body.toString("utf8"), "socket");
+    if (!decoded.ok) {
+      reply(res, 400, decoded);
+      return;
+    }
+
+    try {
+      const result = await this.onPush(decoded.push);
+      reply(res, result.ok ? 200 : 422, result);
+    } catch (e) {
+      reply(res, 500, { ok: false, error: (e as Error).message });
+    }
+  }
+
+  dispose(): void {
+    void this.stop();
+  }
+}
@@ -4,37 +4,286 @@
 /** A flat map of VS Code color-token IDs → hex color strings */
 export type ColorMap = Record<string, string>;
 
+/** Style block of a TextMate rule, as used by editor.tokenColorCustomizations */
+export interface TokenStyle {
+  foreground?: string;
+  /** Space-separated: "italic", "bold", "underline", "strikethrough" — or "" to reset */
+  fontStyle?: string;
+}
+
+/** Map of TextMate scope selectors → style, e.g. { "comment": { foreground: "#585b70" } } */
+export type TokenColorMap = Record<string, TokenStyle>;
+
+/** Style of a semantic token rule, as used by editor.semanticTokenColorCustomizations */
+export interface SemanticTokenStyle {
+  foreground?: string;
+  fontStyle?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+}
+
+/** Map of semantic token selectors → style, e.g. { "variable.readonly": { foreground: "#fab387" } } */
+export type SemanticTokenColorMap = Record<string, SemanticTokenStyle>;
+
+/** A single entry of editor.tokenColorCustomizations.textMateRules */
+export interface TextMateRule {
+  name?: string;
+  scope?: string | string[];
+  settings: TokenStyle;
+}
+
+/** Free-form metadata block ("_meta") of a palette file */
+export interface PaletteMeta {
+  generated?: string;
+  source?: string;
+  /** "dark" / "light" (matugen's {{mode}}), or any name mapped in matugenBridge.variantThemes */
+  variant?: string;
+  [key: string]: unknown;
+}
+
 /**
  * Shape of the vscode-palette.json file written by matugen.
- * Every key that contains a dot is treated as a VS Code color token.
+ * Every key that contains a dot — or is a dotless color ID known to the
+ * registry, like "focusBorder" — is treated as a VS Code color token.
  * Keys starting with "_" are reserved for metadata and are ignored.
  */
 export interface PaletteFile {
-  _meta?: {
-    generated?: string;
-    source?: string;
-    variant?: string;
-    [key: string]: unknown;
-  };
+  _meta?: PaletteMeta;
+  /** Named colors referenced from expressions as "$name" */
+  _vars?: Record<string, string>;
+  /**
+   * Syntax highlighting rules. Keys are TextMate scope selectors
+   * (comma-separated lists allowed); values are either a color
+   * (foreground only) or a { foreground, fontStyle } object.
+   */
+  _tokenColors?: Record<string, string | TokenStyle>;
+  /**
+   * Semantic highlighting rules. Keys are semantic token selectors
+   * ("function.declaration", "*.deprecated", "variable:typescript");
+   * values are a color or a SemanticTokenStyle object.
+   */
+  _semanticTokenColors?: Record<string, string | SemanticTokenStyle>;
+  /**
+   * Multi-variant files hold one block per variant. The block matching the
+   * active theme kind is merged over the shared top-level entries.
+   */
+  dark?: Omit<PaletteFile, PaletteVariant>;
+  light?: Omit<PaletteFile, PaletteVariant>;
+  highContrast?: Omit<PaletteFile, PaletteVariant>;
+  highContrastLight?: Omit<PaletteFile, PaletteVariant>;
   [token: string]: string | Record<string, unknown> | undefined;
 }
 
+/** Material You role name → hex color, e.g. { "surface_container_low": "#1d1b20" } */
+export type RoleScheme = Record<string, string>;
+
+/** Which half of a dark/light scheme to use */
+export type SchemeMode = "dark" | "light";
+
+/** Variant blocks a multi-variant palette file may hold — one per ColorThemeKind */
+export const PALETTE_VARIANTS = ["dark", "light", "highContrast", "highContrastLight"] as const;
+export type PaletteVariant = (typeof PALETTE_VARIANTS)[number];
+
+/**
+ * File formats the reader understands. "vscode" is the token JSON (and
+ * matugen's raw scheme); the others are converted by src/importers/.
+ * "auto" picks by file extension, then by content.
+ */
+export const PALETTE_FORMATS = ["auto", "vscode", "pywal", "base16", "xresources", "gtk"] as const;
+export type PaletteFormat = (typeof PALETTE_FORMATS)[number];
+
+/**
+ * A color scheme from another tool, reduced to what the importers share:
+ * a background, a foreground and (up to) sixteen terminal colors, plus
+ * the few extras some formats define. All values are canonical hex.
+ */
+export interface ImportedScheme {
+  background: string;
+  foreground: string;
+  /** color0–color15 by slot index; slots the format lacks are undefined */
+  ansi: (string | undefined)[];
+  /** Main accent — defaults to the blue slot */
+  accent?: string;
+  cursor?: string;
+  selection?: string;
+  /** Surfaces slightly off the background, when the format defines them */
+  surfaceLow?: string;
+  surfaceHigh?: string;
+  /** Comment color */
+  comment?: string;
+  /** Secondary text: line numbers, descriptions */
+  muted?: string;
+  /** Scheme name and dark/light, when the file says */
+  name?: string;
+  variant?: SchemeMode;
+}
+
+/** Options that influence how a palette file is interpreted */
+export interface PaletteReadOptions {
+  /**
+   * Variant to pick from multi-variant files and matugen's raw scheme
+   * output (high-contrast variants use the light/dark half there).
+   */
+  variant?: PaletteVariant;
+  /** Token → role binding overrides for matugen's raw scheme output and imported schemes */
+  roleOverrides?: Record<string, string>;
+  /** File format — defaults to "auto" */
+  format?: PaletteFormat;
+}
+
+/**
+ * What happens when the palette file is deleted:
+ *  - "keep":            applied colors stay until a new file appears
+ *  - "clear":           managed colors are removed, back to the base theme
+ *  - "restoreSnapshot": the latest history snapshot stands in while the file is missing
+ */
+export type DeletePolicy = "keep" | "clear" | "restoreSnapshot";
+
+/** How contrast problems in a palette are handled before applying */
+export type ContrastMode = "off" | "warn" | "fix";
+
+/** Everything a palette contributes, validated and ready to apply */
+export interface ParsedPalette {
+  colors: ColorMap;
+  tokenColors: TokenColorMap;
+  semanticTokenColors: SemanticTokenColorMap;
+  meta: PaletteMeta;
+}
+
 /** Discriminated union returned by the palette reader */
 export type PaletteReadResult =
-  | { ok: true; colors: ColorMap }
+  | ({ ok: true } & ParsedPalette)
+  | { ok: false; error: string };
+
+/**
+ * Palette sources, lowest precedence first:
+ *  - "matugen":   the generated palette file (required)
+ *  - "personal":  the user's own overrides file (optional)
+ *  - "workspace": a per-repository overrides file (optional) — written to
+ *    workspace settings instead of user settings
+ */
+export type PaletteLayerName = "matugen" | "personal" | "workspace";
+
+export interface PaletteLayer {
+  name: PaletteLayerName;
+  /** Absolute path of the layer's file */
+  path: string;
+  /** Optional layers are skipped when their file does not exist */
+  optional: boolean;
+  /** Settings level the layer ends up in */
+  target: "global" | "workspace";
+  /** File format; only the matugen layer honours matugenBridge.format */
+  format: PaletteFormat;
+  /** Pushed palette text, parsed instead of reading `path` */
+  content?: string;
+}
+
+/**
+ * A palette pushed through the URI handler or the local socket. It stands
+ * in for the matugen layer until the palette file changes again.
+ */
+export interface PalettePush {
+  /** File to read — or, with inline `content`, a name for format detection */
+  path: string;
+  /** Inline palette text */
+  content?: string;
+  format: PaletteFormat;
+  /** Where the push came from, for log lines */
+  via: "uri" | "socket" | "api";
+  /** Caller-given name of an API push, recorded as the palette's source */
+  source?: string;
+}
+
+/** Color tokens added, changed and removed between two applies */
+export interface PaletteDiff {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+/** What a push reports back to its sender */
+export type PushResult =
+  | { ok: true; colors: number; tokenColors: number; semanticTokenColors: number }
   | { ok: false; error: string };
 
+/** Result of reading every layer — only a failing required layer is fatal */
+export type LayeredReadResult =
+  | {
+      ok: true;
+      /** Global layers merged in precedence order; null when none were read */
+      global: ParsedPalette | null;
+      /** The workspace layer; null when absent */
+      workspace: ParsedPalette | null;
+      /** Optional layers that exist but could not be used */
+      skipped: string[];
+    }
+  | {
+      ok: false;
+      error: string;
+      /** The required layer's file does not exist (as opposed to being broken) */
+      missing?: boolean;
+    };
+
+/** A previously applied palette, kept in the extension's global storage */
+export interface PaletteSnapshot extends ParsedPalette {
+  id: string;
+  /** ISO-8601 timestamp of when the palette was applied */
+  savedAt: string;
+}
+
 /**
- * Key stored inside workbench.colorCustomizations to let us know
- * which color tokens were last written by this extension.
+ * Key stored inside workbench.colorCustomizations (and the token /
+ * semantic token color customizations) to let us know which color
+ * tokens, TextMate scopes or semantic selectors were last written by
+ * this extension.
  * This allows safe merging — we only remove OUR old keys, never
  * touching anything the user set manually.
  */
 export const MANAGED_KEY = "__matugenBridge";
 
 export interface ManagedMeta {
-  /** Color-token keys currently owned by this extension */
+  /** Color-token keys (or scope / semantic selectors) currently owned by this extension */
   keys: string[];
+  /**
+   * Theme-scoped layout: "[Theme Name]" block → keys we own inside it.
+   * Absent when everything lives at the top level.
+   */
+  scopes?: Record<string, string[]>;
   /** ISO-8601 timestamp of last apply */
   appliedAt: string;
+  /** Content hash of the entries and layout last written — identical re-applies skip the write */
+  hash?: string;
+  /**
+   * Where the palette last written came from: "file", "snapshot", "uri",
+   * "socket", or the source an API caller gave. Colors only.
+   */
+  source?: string;
+  /**
+   * Value written for each managed key (the same in every scope block),
+   * so hand edits can be told apart from our own. Colors only.
+   */
+  values?: Record<string, string>;
+}
+
+/**
+ * What happens to a managed color the user edited by hand:
+ *  - "adopt":     it becomes theirs — no longer managed, and excluded from palettes
+ *  - "overwrite": the palette wins
+ *  - "ask":       a notification asks each time
+ */
+export type DriftPolicy = "adopt" | "overwrite" | "ask";
+
+/** A managed color whose value in settings is no longer the one we wrote */
+export interface ColorDrift {
+  key: string;
+  /** "changed": another value is there now; "removed": the key is gone */
+  kind: "changed" | "removed";
+  /** "[Theme Name]" block holding the key; undefined at the top level */
+  scope?: string;
+  /** The value we wrote */
+  written: string;
+  /** The value in settings now, for "changed" */
+  current?: string;
 }
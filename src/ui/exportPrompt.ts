@@ -0,0 +1,74 @@
+// src/ui/exportPrompt.ts
+// Asks for everything a theme export needs: name, dark/light, whether to
+// scaffold an extension, and the output folder. Dismissing any step
+// cancels the export.
+
+import * as vscode from "vscode";
+import type { ThemeExportOptions } from "../engine/themeExport";
+import type { SchemeMode } from "../types";
+
+const TITLE = "Matugen: Export Palette as Theme";
+
+interface KindItem extends vscode.QuickPickItem {
+  mode: SchemeMode;
+}
+
+interface LayoutItem extends vscode.QuickPickItem {
+  scaffold: boolean;
+}
+
+/**
+ * Walks through the export questions and resolves with the answers, or
+ * undefined when dismissed.
+ *
+ * @param suggestedKind  Preselected dark/light — usually the palette's own
+ */
+export async function promptThemeExport(suggestedKind: SchemeMode): Promise<ThemeExportOptions | undefined> {
+  const name = (
+    await vscode.window.showInputBox({
+      title: TITLE,
+      prompt: "Theme name, as it will appear in the color theme picker",
+      value: "Matugen Snapshot",
+      validateInput: (v) => (v.trim() === "" ? "The theme needs a name." : undefined),
+    })
+  )?.trim();
+  if (!name) return undefined;
+
+  const kinds: KindItem[] = [
+    { mode: "dark", label: "Dark", description: "uiTheme vs-dark" },
+    { mode: "light", label: "Light", description: "uiTheme vs" },
+  ];
+  if (suggestedKind === "light") kinds.reverse();
+  kinds[0].description += " · matches the current palette";
+
+  const kind = await vscode.window.showQuickPick(kinds, {
+    title: TITLE,
+    placeHolder: "Theme type — decides the base theme and the editor's built-in defaults",
+  });
+  if (!kind) return undefined;
+
+  const layout = await vscode.window.showQuickPick<LayoutItem>(
+    [
+      { scaffold: false, label: "Theme file only", description: "<name>-color-theme.json" },
+      {
+        scaffold: true,
+        label: "Theme extension",
+        description: "package.json + themes/<name>-color-theme.json",
+        detail: "Ready for `vsce package` — share the .vsix with people who don't run matugen",
+      },
+    ],
+    { title: TITLE, placeHolder: "What to write" }
+  );
+  if (!layout) return undefined;
+
+  const folder = await vscode.window.showOpenDialog({
+    title: TITLE,
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: "Export Here",
+  });
+  if (!folder || folder.length === 0) return undefined;
+
+  return { name, kind: kind.mode, outputDir: folder[0].fsPath, scaffold: layout.scaffold };
+}
@@ -0,0 +1,116 @@
+// src/ui/historyPicker.ts
+// Quick pick over the palette history, with a swatch strip per snapshot.
+//
+// Swatches are tiny SVG files written next to the history file the first
+// time a snapshot is shown; quick pick items can only take icons from a
+// URI, not inline markup. The history deletes them with their snapshot.
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { SWATCH_DIR } from "../engine/paletteHistory";
+import type { PaletteHistory } from "../engine/paletteHistory";
+import type { PaletteSnapshot } from "../types";
+import { logger } from "../utils/logger";
+
+/** Tokens shown in a swatch strip, most recognisable first */
+const SWATCH_TOKENS = [
+  "editor.background",
+  "sideBar.background",
+  "statusBar.background",
+  "editorCursor.foreground",
+  "button.background",
+  "editor.foreground",
+];
+
+export type HistoryAction = "apply" | "pin";
+
+interface SnapshotItem extends vscode.QuickPickItem {
+  snapshot: PaletteSnapshot;
+}
+
+const PIN_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("pin"),
+  tooltip: "Apply and pin — the palette file won't replace it until unpinned",
+};
+
+function swatchColors(snapshot: PaletteSnapshot): string[] {
+  const picked = SWATCH_TOKENS.map((t) => snapshot.colors[t]).filter((c): c is string => c !== undefined);
+  return picked.length > 0 ? picked : Object.values(snapshot.colors).slice(0, SWATCH_TOKENS.length);
+}
+
+/** Writes (once) and returns the swatch strip icon for `snapshot` */
+function swatchIcon(storageDir: string, snapshot: PaletteSnapshot): vscode.Uri | undefined {
+  const file = path.join(storageDir, SWATCH_DIR, `${snapshot.id}.svg`);
+  if (!fs.existsSync(file)) {
+    const colors = swatchColors(snapshot);
+    const w = 16 / Math.max(1, colors.length);
+    const rects = colors
+      .map((c, i) => `<rect x="${(i * w).toFixed(2)}" y="0" width="${w.toFixed(2)}" height="16" fill="${c}"/>`)
+      .join("");
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16">${rects}</svg>`);
+    } catch (e) {
+      logger.debug(`Could not write swatch for ${snapshot.id}: ${(e as Error).message}`);
+      return undefined;
+    }
+  }
+  return vscode.Uri.file(file);
+}
+
+function describe(snapshot: PaletteSnapshot, history: PaletteHistory): string {
+  const parts: string[] = [];
+  if (typeof snapshot.meta.variant === "string") parts.push(snapshot.meta.variant);
+  if (typeof snapshot.meta.source === "string") parts.push(snapshot.meta.source);
+  parts.push(`${Object.keys(snapshot.colors).length} colors`);
+  if (history.current?.id === snapshot.id) parts.push("$(check) current");
+  if (history.pinned?.id === snapshot.id) parts.push("$(pin) pinned");
+  return parts.join(" · ");
+}
+
+/**
+ * Shows the history and resolves with the chosen snapshot and whether it
+ * should be pinned, or undefined when dismissed.
+ */
+export function pickSnapshot(
+  history: PaletteHistory,
+  storageDir: string
+): Promise<{ snapshot: PaletteSnapshot; action: HistoryAction } | undefined> {
+  const snapshots = history.list();
+  if (snapshots.length === 0) {
+    vscode.window.showInformationMessage("Matugen Bridge: Palette history is empty.");
+    return Promise.resolve(undefined);
+  }
+
+  const qp = vscode.window.createQuickPick<SnapshotItem>();
+  qp.title = "Matugen: Palette History";
+  qp.placeholder = "Pick a palette to apply — use the pin button to keep it";
+  qp.matchOnDescription = true;
+  qp.items = snapshots.map((snapshot) => ({
+    snapshot,
+    label: new Date(snapshot.savedAt).toLocaleString(),
+    description: describe(snapshot, history),
+    detail: swatchColors(snapshot).join("  "),
+    iconPath: swatchIcon(storageDir, snapshot),
+    buttons: [PIN_BUTTON],
+  }));
+
+  return new Promise((resolve) => {
+    let done = false;
+    const finish = (value: { snapshot: PaletteSnapshot; action: HistoryAction } | undefined): void => {
+      if (done) return;
+      done = true;
+      resolve(value);
+      qp.dispose();
+    };
+
+    qp.onDidAccept(() => {
+      const item = qp.selectedItems[0];
+      finish(item ? { snapshot: item.snapshot, action: "apply" } : undefined);
+    });
+    qp.onDidTriggerItemButton((e) => finish({ snapshot: e.item.snapshot, action: "pin" }));
+    qp.onDidHide(() => finish(undefined));
+    qp.show();
+  });
+}
@@ -0,0 +1,351 @@
+// src/ui/paletteDiagnostics.ts
+// Problems-panel diagnostics for the palette files while they are open.
+//
+// Every open document whose path is one of the palette layers is checked
+// on open and on every edit:
+//   - keys that are near misses of a known color ID get a warning with a
+//     "did you mean" suggestion (the reader skips them)
+//   - other unknown dotted keys get a hint — they are still applied, in
+//     case an extension contributes them
+//   - values that are not colors, and expressions that fail to evaluate,
+//     are errors (the reader skips them)
+//
+// Syntax errors are left to VS Code's own JSON support, and matugen's raw
+// scheme output is not checked — its keys are roles, not tokens.
+
+import * as vscode from "vscode";
+import * as path from "path";
+import { PALETTE_VARIANTS } from "../types";
+import type { PaletteFile } from "../types";
+import { isKnownColor, suggestColors } from "../engine/colorRegistry";
+import { resolveExpressions } from "../engine/expressions";
+import { isColorToken, toColor } from "../engine/paletteReader";
+
+const SOURCE = "Matugen Bridge";
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Locator — finds the offsets of every property in the JSON text
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface PropertyLocation {
+  keyStart: number;
+  keyEnd: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+/** Property path → location, e.g. ["dark", "editor.background"] */
+type LocationMap = Map<string, PropertyLocation>;
+
+function locationKey(propertyPath: string[]): string {
+  return JSON.stringify(propertyPath);
+}
+
+/** Thrown when the text stops being valid JSON */
+class LocatorError extends Error {}
+
+const LITERAL_RE = /-?[\d.eE+-]+|true|false|null/y;
+
+class Locator {
+  private pos = 0;
+  readonly found: LocationMap = new Map();
+
+  constructor(private readonly text: string) {}
+
+  /** Locates as many properties as it can; stops at the first syntax error */
+  run(): LocationMap {
+    try {
+      this.value([]);
+    } catch (e) {
+      if (!(e instanceof LocatorError)) throw e;
+    }
+    return this.found;
+  }
+
+  private skipWs(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private expect(ch: string): void {
+    this.skipWs();
+    if (this.text[this.pos] !== ch) throw new LocatorError();
+    this.pos++;
+  }
+
+  private value(propertyPath: string[]): void {
+    this.skipWs();
+    switch (this.text[this.pos]) {
+      case "{": return this.object(propertyPath);
+      case "[": return this.array(propertyPath);
+      case "\"": { this.string(); return; }
+      default: return this.literal();
+    }
+  }
+
+  private object(propertyPath: string[]): void {
+    this.expect("{");
+    this.skipWs();
+    if (this.text[this.pos] === "}") { this.pos++; return; }
+
+    for (;;) {
+      this.skipWs();
+      const keyStart = this.pos;
+      const key = this.string();
+      const keyEnd = this.pos;
+      this.expect(":");
+      this.skipWs();
+      const valueStart = this.pos;
+      const childPath = [...propertyPath, key];
+      this.value(childPath);
+      this.found.set(locationKey(childPath), { keyStart, keyEnd, valueStart, valueEnd: this.pos });
+
+      this.skipWs();
+      if (this.text[this.pos] === ",") { this.pos++; continue; }
+      this.expect("}");
+      return;
+    }
+  }
+
+  private array(propertyPath: string[]): void {
+    this.expect("[");
+    this.skipWs();
+    if (this.text[this.pos] === "]") { this.pos++; return; }
+
+    for (;;) {
+      this.value(propertyPath);
+      this.skipWs();
+      if (this.text[this.pos] === ",") { this.pos++; continue; }
+      this.expect("]");
+      return;
+    }
+  }
+
+  private string(): string {
+    if (this.text[this.pos] !== "\"") throw new LocatorError();
+    let end = this.pos + 1;
+    while (end < this.text.length && this.text[end] !== "\"") {
+      end += this.text[end] === "\\" ? 2 : 1;
+    }
+    if (end >= this.text.length) throw new LocatorError();
+
+    const raw = this.text.slice(this.pos, end + 1);
+    this.pos = end + 1;
+    try {
+      return JSON.parse(raw) as string;
+    } catch {
+      throw new LocatorError();
+    }
+  }
+
+  private literal(): void {
+    LITERAL_RE.lastIndex = this.pos;
+    const m = LITERAL_RE.exec(this.text);
+    if (!m) throw new LocatorError();
+    this.pos += m[0].length;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface Problem {
+  /** Property the problem belongs to */
+  propertyPath: string[];
+  /** Underline the key rather than the value */
+  onKey: boolean;
+  severity: vscode.DiagnosticSeverity;
+  message: string;
+}
+
+/** Checks one token key, independent of its value */
+function checkKey(key: string, propertyPath: string[]): Problem | undefined {
+  if (isKnownColor(key)) return undefined;
+
+  const suggestions = suggestColors(key);
+  if (suggestions.length > 0) {
+    const quoted = suggestions.map((s) => `"${s}"`).join(", ");
+    return {
+      propertyPath,
+      onKey: true,
+      severity: vscode.DiagnosticSeverity.Warning,
+      message: `Unknown color "${key}" — did you mean ${quoted}? It will be skipped.`,
+    };
+  }
+
+  if (!isColorToken(key)) return undefined;
+  return {
+    propertyPath,
+    onKey: true,
+    severity: vscode.DiagnosticSeverity.Hint,
+    message: `"${key}" is not a built-in color. It is applied as-is, in case an extension contributes it.`,
+  };
+}
+
+/**
+ * Checks every value of one palette view — the whole file, or the shared
+ * entries merged with one variant block, exactly as the reader sees them.
+ * `origin` tells where each key was written.
+ */
+function checkValues(view: PaletteFile, origin: (key: string) => string[]): Problem[] {
+  const problems: Problem[] = [];
+  const resolved = resolveExpressions(view);
+
+  for (const [key, raw] of Object.entries(view)) {
+    if (!isColorToken(key)) continue;
+    const propertyPath = origin(key);
+
+    if (typeof raw !== "string") {
+      problems.push({
+        propertyPath,
+        onKey: false,
+        severity: vscode.DiagnosticSeverity.Error,
+        message: `The value of "${key}" must be a color string.`,
+      });
+      continue;
+    }
+
+    const value = resolved.palette[key];
+    if (value === undefined) {
+      const prefix = `Expression error in "${key}": `;
+      const error = resolved.errors.find((e) => e.startsWith(prefix));
+      problems.push({
+        propertyPath,
+        onKey: false,
+        severity: vscode.DiagnosticSeverity.Error,
+        message: `Expression error: ${error ? error.slice(prefix.length) : `cannot evaluate "${raw}"`}`,
+      });
+      continue;
+    }
+
+    const color = toColor(value);
+    if (!color.ok) {
+      problems.push({
+        propertyPath,
+        onKey: false,
+        severity: vscode.DiagnosticSeverity.Error,
+        message: `Invalid color: ${color.reason}`,
+      });
+    }
+  }
+
+  return problems;
+}
+
+/** All problems in a parsed palette file, deduplicated across variants */
+function checkPalette(parsed: Record<string, unknown>): Problem[] {
+  // matugen raw scheme — role names, not tokens
+  if (isPlainObject(parsed["colors"])) return [];
+
+  const problems: Problem[] = [];
+  const variants = PALETTE_VARIANTS.filter((v) => isPlainObject(parsed[v]));
+
+  const shared = { ...parsed } as PaletteFile;
+  for (const v of variants) delete shared[v];
+
+  for (const key of Object.keys(shared)) {
+    if (key.startsWith("_")) continue;
+    const problem = checkKey(key, [key]);
+    if (problem) problems.push(problem);
+  }
+
+  if (variants.length === 0) {
+    problems.push(...checkValues(shared, (key) => [key]));
+  } else {
+    for (const v of variants) {
+      const block = parsed[v] as PaletteFile;
+      for (const key of Object.keys(block)) {
+        if (key.startsWith("_")) continue;
+        const problem = checkKey(key, [v, key]);
+        if (problem) problems.push(problem);
+      }
+      const origin = (key: string): string[] =>
+        Object.prototype.hasOwnProperty.call(block, key) ? [v, key] : [key];
+      problems.push(...checkValues({ ...shared, ...block }, origin));
+    }
+  }
+
+  // A shared entry broken in several variants is reported once
+  const seen = new Set<string>();
+  return problems.filter((p) => {
+    const id = `${locationKey(p.propertyPath)}|${p.onKey}|${p.message}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Diagnostic collection
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class PaletteDiagnostics implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection("matugenBridge");
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /** @param getPaths  Current palette layer paths — re-read on every check */
+  constructor(private readonly getPaths: () => string[]) {
+    this.disposables.push(
+      this.collection,
+      vscode.workspace.onDidOpenTextDocument((doc) => this.check(doc)),
+      vscode.workspace.onDidChangeTextDocument((e) => this.check(e.document)),
+      vscode.workspace.onDidCloseTextDocument((doc) => this.collection.delete(doc.uri))
+    );
+    this.refresh();
+  }
+
+  /** Re-checks every open document — call after the layer paths change */
+  refresh(): void {
+    this.collection.clear();
+    for (const doc of vscode.workspace.textDocuments) this.check(doc);
+  }
+
+  private isPaletteFile(doc: vscode.TextDocument): boolean {
+    if (doc.uri.scheme !== "file") return false;
+    const target = path.resolve(doc.uri.fsPath);
+    return this.getPaths().some((p) => path.resolve(p) === target);
+  }
+
+  private check(doc: vscode.TextDocument): void {
+    if (!this.isPaletteFile(doc)) return;
+
+    const text = doc.getText();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Mid-edit or malformed — VS Code's JSON support reports the syntax
+      this.collection.delete(doc.uri);
+      return;
+    }
+    if (!isPlainObject(parsed)) {
+      this.collection.delete(doc.uri);
+      return;
+    }
+
+    const locations = new Locator(text).run();
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const problem of checkPalette(parsed)) {
+      const loc = locations.get(locationKey(problem.propertyPath));
+      if (!loc) continue;
+      const range = problem.onKey
+        ? new vscode.Range(doc.positionAt(loc.keyStart), doc.positionAt(loc.keyEnd))
+        : new vscode.Range(doc.positionAt(loc.valueStart), doc.positionAt(loc.valueEnd));
+      const diagnostic = new vscode.Diagnostic(range, problem.message, problem.severity);
+      diagnostic.source = SOURCE;
+      diagnostics.push(diagnostic);
+    }
+
+    this.collection.set(doc.uri, diagnostics);
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+    this.disposables.length = 0;
+  }
+}
@@ -0,0 +1,282 @@
+// src/ui/palettePreview.ts
+// Webview that previews a palette before it goes live ("confirm" apply
+// mode), or shows the palette that is live right now (inspect).
+//
+// The panel renders:
+//  - grouped swatches (editor, side bar, status bar, terminal, other)
+//  - a mock editor painted with the palette's colors and token rules
+//  - a per-token diff against the currently managed values
+//
+// In confirm mode it resolves with the user's decision: apply everything,
+// apply only the ticked groups, or discard. A newer palette arriving while
+// the panel is open replaces the pending one — the older is discarded.
+
+import * as vscode from "vscode";
+import type { ColorMap, ParsedPalette, TokenColorMap } from "../types";
+import { logger } from "../utils/logger";
+
+export type PreviewDecision =
+  | { action: "apply"; palette: ParsedPalette }
+  | { action: "discard" };
+
+interface TokenGroup {
+  id: string;
+  label: string;
+  /** Tested against the part of the token before the first dot */
+  match: RegExp;
+}
+
+/** Swatch groups, in display order — "other" catches everything left */
+const GROUPS: ReadonlyArray<TokenGroup> = [
+  { id: "editor", label: "Editor", match: /^(editor|diffEditor|minimap|breadcrumb|tab|scrollbar)/ },
+  { id: "sidebar", label: "Side bar", match: /^(sideBar|activityBar|list|tree)/ },
+  { id: "statusBar", label: "Status bar", match: /^statusBar/ },
+  { id: "terminal", label: "Terminal", match: /^terminal/ },
+  { id: "other", label: "Other", match: /.*/ },
+];
+
+function groupOf(token: string): string {
+  const prefix = token.split(".")[0];
+  return GROUPS.find((g) => g.match.test(prefix))!.id;
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Foreground of the first TextMate rule whose selector list has `scope` */
+function scopeColor(rules: TokenColorMap, scope: string, fallback: string): string {
+  for (const [selector, style] of Object.entries(rules)) {
+    if (style.foreground && selector.split(",").map((s) => s.trim()).includes(scope)) {
+      return style.foreground;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Builds the palette to apply when only some groups are ticked: tokens of
+ * unticked groups keep their current value (or stay unmanaged).
+ */
+function partialPalette(incoming: ParsedPalette, current: ColorMap, groups: string[]): ParsedPalette {
+  const ticked = new Set(groups);
+  const colors: ColorMap = {};
+  for (const token of new Set([...Object.keys(current), ...Object.keys(incoming.colors)])) {
+    const value = ticked.has(groupOf(token)) ? incoming.colors[token] : current[token];
+    if (value !== undefined) colors[token] = value;
+  }
+  return { ...incoming, colors };
+}
+
+export class PalettePreview implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined;
+  private pending: { palette: ParsedPalette; current: ColorMap; resolve: (d: PreviewDecision) => void } | undefined;
+
+  /**
+   * Shows `incoming` next to `current` and waits for Apply, Apply
+   * partially or Discard. Closing the panel discards.
+   */
+  confirm(incoming: ParsedPalette, current: ColorMap): Promise<PreviewDecision> {
+    if (this.pending) logger.debug("Preview: a newer palette arrived — discarding the pending one.");
+    this.settle({ action: "discard" });
+
+    return new Promise((resolve) => {
+      this.pending = { palette: incoming, current, resolve };
+      this.show("Matugen: New Palette", render(incoming, current, true));
+    });
+  }
+
+  /**
+   * Discards the palette waiting for a decision, if any, but keeps the
+   * panel open — a newer palette is about to be shown in it.
+   */
+  supersede(): void {
+    if (!this.pending) return;
+    logger.debug("Preview: a newer palette is on its way — discarding the pending one.");
+    this.settle({ action: "discard" });
+  }
+
+  /** Shows the live palette, without any buttons */
+  inspect(current: ParsedPalette): void {
+    this.settle({ action: "discard" });
+    this.show("Matugen: Current Palette", render(current, current.colors, false));
+  }
+
+  private settle(decision: PreviewDecision): void {
+    const pending = this.pending;
+    this.pending = undefined;
+    pending?.resolve(decision);
+  }
+
+  private show(title: string, html: string): void {
+    if (!this.panel) {
+      this.panel = vscode.window.createWebviewPanel(
+        "matugenBridge.preview",
+        title,
+        { viewColumn: vscode.ViewColumn.Active, preserveFocus: false },
+        { enableScripts: true, localResourceRoots: [] }
+      );
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+        this.settle({ action: "discard" });
+      });
+      this.panel.webview.onDidReceiveMessage((msg: { type: string; groups?: string[] }) => {
+        const pending = this.pending;
+        if (!pending) return;
+        if (msg.type === "apply") {
+          const palette = msg.groups ? partialPalette(pending.palette, pending.current, msg.groups) : pending.palette;
+          this.settle({ action: "apply", palette });
+        } else if (msg.type === "discard") {
+          this.settle({ action: "discard" });
+        } else {
+          return;
+        }
+        this.panel?.dispose();
+      });
+    }
+    this.panel.title = title;
+    this.panel.webview.html = html;
+    this.panel.reveal(undefined, false);
+  }
+
+  dispose(): void {
+    this.panel?.dispose();
+    this.settle({ action: "discard" });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HTML
+// ─────────────────────────────────────────────────────────────────────────────
+
+function swatch(color: string | undefined): string {
+  return color === undefined
+    ? `<span class="sw none" title="not set">–</span>`
+    : `<span class="sw" style="background:${escapeHtml(color)}" title="${escapeHtml(color)}"></span>`;
+}
+
+function renderGroups(palette: ParsedPalette, current: ColorMap, confirm: boolean): string {
+  return GROUPS.map((g) => {
+    const tokens = Object.keys(palette.colors).filter((t) => groupOf(t) === g.id).sort();
+    if (tokens.length === 0) return "";
+    const changed = tokens.filter((t) => current[t] !== palette.colors[t]).length;
+    const tick = confirm
+      ? `<input type="checkbox" class="group" value="${g.id}" checked> `
+      : "";
+    const cells = tokens.map((t) => `<span title="${escapeHtml(t)}">${swatch(palette.colors[t])}</span>`).join("");
+    const note = confirm ? ` — ${changed} changed` : "";
+    return `<section><label>${tick}<b>${g.label}</b> (${tokens.length}${note})</label><div class="grid">${cells}</div></section>`;
+  }).join("");
+}
+
+function renderMock(palette: ParsedPalette): string {
+  const c = palette.colors;
+  const fg = c["editor.foreground"] ?? "#cccccc";
+  const rules = palette.tokenColors;
+  const kw = scopeColor(rules, "keyword", fg);
+  const str = scopeColor(rules, "string", fg);
+  const fn = scopeColor(rules, "entity.name.function", fg);
+  const cmt = scopeColor(rules, "comment", fg);
+  const num = scopeColor(rules, "constant.numeric", fg);
+  const style = (props: Record<string, string | undefined>): string =>
+    Object.entries(props)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${k}:${escapeHtml(v!)}`)
+      .join(";");
+
+  return `
+<div class="mock" style="${style({ background: c["editor.background"], color: fg })}">
+  <div class="activity" style="${style({ background: c["activityBar.background"] })}"></div>
+  <div class="side" style="${style({ background: c["sideBar.background"], color: c["sideBar.foreground"] })}">
+    <div>EXPLORER</div><div class="sel" style="${style({ background: c["list.activeSelectionBackground"], color: c["list.activeSelectionForeground"] })}">extension.ts</div><div>types.ts</div>
+  </div>
+  <div class="main">
+    <div class="tabs" style="${style({ background: c["editorGroupHeader.tabsBackground"] })}">
+      <span style="${style({ background: c["tab.activeBackground"], color: c["tab.activeForeground"] })}">extension.ts</span>
+      <span style="${style({ background: c["tab.inactiveBackground"], color: c["tab.inactiveForeground"] })}">types.ts</span>
+    </div>
+    <pre><span style="color:${escapeHtml(c["editorLineNumber.foreground"] ?? cmt)}">1</span>  <span style="color:${escapeHtml(cmt)}">// palette preview</span>
+<span style="color:${escapeHtml(c["editorLineNumber.foreground"] ?? cmt)}">2</span>  <span style="color:${escapeHtml(kw)}">export function</span> <span style="color:${escapeHtml(fn)}">apply</span>(count = <span style="color:${escapeHtml(num)}">42</span>) {
+<span style="color:${escapeHtml(c["editorLineNumber.foreground"] ?? cmt)}">3</span>    <span style="color:${escapeHtml(kw)}">return</span> <span style="color:${escapeHtml(str)}">"colors applied"</span>;
+<span style="color:${escapeHtml(c["editorLineNumber.foreground"] ?? cmt)}">4</span>  }</pre>
+    <div class="term" style="${style({ background: c["terminal.background"] ?? c["panel.background"], color: c["terminal.foreground"] })}">$ <span style="color:${escapeHtml(c["terminal.ansiGreen"] ?? fg)}">matugen</span> image wall.png <span style="color:${escapeHtml(c["terminal.ansiRed"] ?? fg)}">✗</span> <span style="color:${escapeHtml(c["terminal.ansiBlue"] ?? fg)}">done</span></div>
+  </div>
+  <div class="status" style="${style({ background: c["statusBar.background"], color: c["statusBar.foreground"] })}">main ⟳ Ln 2, Col 8</div>
+</div>`;
+}
+
+function renderDiff(palette: ParsedPalette, current: ColorMap): string {
+  const tokens = [...new Set([...Object.keys(current), ...Object.keys(palette.colors)])].sort();
+  const rows = tokens
+    .filter((t) => current[t] !== palette.colors[t])
+    .map((t) => {
+      const kind = current[t] === undefined ? "added" : palette.colors[t] === undefined ? "removed" : "changed";
+      return `<tr class="${kind}"><td>${escapeHtml(t)}</td><td>${swatch(current[t])} ${escapeHtml(current[t] ?? "")}</td>` +
+        `<td>→</td><td>${swatch(palette.colors[t])} ${escapeHtml(palette.colors[t] ?? "")}</td><td>${kind}</td></tr>`;
+    });
+  if (rows.length === 0) return `<p>No color changes against the current palette.</p>`;
+  return `<table><tr><th>Token</th><th>Current</th><th></th><th>New</th><th></th></tr>${rows.join("")}</table>`;
+}
+
+function render(palette: ParsedPalette, current: ColorMap, confirm: boolean): string {
+  const nonce = Math.random().toString(36).slice(2) + Date.now().toString(36);
+  const buttons = confirm
+    ? `<div class="actions">
+  <button id="apply">Apply</button>
+  <button id="partial">Apply ticked groups</button>
+  <button id="discard" class="secondary">Discard</button>
+</div>`
+    : "";
+  const script = confirm
+    ? `<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  document.getElementById("apply").onclick = () => vscode.postMessage({ type: "apply" });
+  document.getElementById("discard").onclick = () => vscode.postMessage({ type: "discard" });
+  document.getElementById("partial").onclick = () => vscode.postMessage({
+    type: "apply",
+    groups: [...document.querySelectorAll("input.group:checked")].map((e) => e.value),
+  });
+</script>`
+    : "";
+  const variant = typeof palette.meta.variant === "string" ? ` · ${escapeHtml(palette.meta.variant)}` : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 24px; }
+  .actions { position: sticky; top: 0; padding: 8px 0; background: var(--vscode-editor-background); display: flex; gap: 8px; }
+  button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; cursor: pointer; }
+  button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+  section { margin: 12px 0; }
+  .grid { display: flex; flex-wrap: wrap; gap: 3px; margin-top: 4px; }
+  .sw { display: inline-block; width: 18px; height: 18px; border: 1px solid var(--vscode-panel-border); vertical-align: middle; }
+  .sw.none { text-align: center; font-size: 11px; }
+  .mock { display: grid; grid-template-columns: 28px 140px 1fr; grid-template-rows: 1fr 22px; height: 260px; font-family: var(--vscode-editor-font-family); font-size: 12px; border: 1px solid var(--vscode-panel-border); }
+  .activity { grid-row: 1; }
+  .side { padding: 6px; }
+  .side div { padding: 2px 4px; }
+  .main { display: flex; flex-direction: column; min-width: 0; }
+  .tabs span { display: inline-block; padding: 5px 12px; }
+  .main pre { flex: 1; margin: 0; padding: 8px; }
+  .term { padding: 6px 8px; }
+  .status { grid-column: 1 / 4; padding: 3px 8px; }
+  table { border-collapse: collapse; font-size: 12px; }
+  td, th { padding: 2px 8px; text-align: left; }
+  tr.added td:last-child { color: var(--vscode-gitDecoration-addedResourceForeground); }
+  tr.removed td:last-child { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+  tr.changed td:last-child { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+</style>
+</head>
+<body>
+${buttons}
+<h2>${confirm ? "Incoming palette" : "Current palette"}${variant}</h2>
+${renderMock(palette)}
+${renderGroups(palette, current, confirm)}
+${confirm ? `<h3>Changes</h3>${renderDiff(palette, current)}` : ""}
+${script}
+</body>
+</html>`;
+}
@@ -0,0 +1,56 @@
+// src/utils/coalesce.ts
+// Latest-wins serialisation for async work — framework-free.
+
+import { logger } from "./logger";
+
+/**
+ * Wraps `fn` so at most one call runs at a time. Calls arriving while one
+ * is running are merged into a single queued run, which starts once the
+ * current call finishes. Every caller's promise settles when the run that
+ * covers its request is done, with that run's result. A rejection is
+ * logged, never passed on — the callers get undefined.
+ *
+ * @param merge  Combines the queued arguments with newer ones. Without it
+ *               the newer arguments simply replace the queued ones.
+ *
+ * Usage:
+ *   const requestApply = coalesce(applyPalette);
+ *   watcherA.onChange(() => requestApply(true));
+ *   watcherB.onChange(() => requestApply(true));   // never overlaps A
+ */
+export function coalesce<A extends unknown[], R = void>(
+  fn: (...args: A) => Promise<R>,
+  merge: (queued: A, next: A) => A = (_queued, next) => next
+): (...args: A) => Promise<R | undefined> {
+  let running: Promise<R | undefined> | undefined;
+  let queued: { args: A; done: Promise<R | undefined> } | undefined;
+
+  const run = (args: A): Promise<R | undefined> => {
+    running = fn(...args)
+      .catch((e): undefined => {
+        logger.error(`${fn.name || "Queued call"} failed: ${(e as Error).message}`);
+        return undefined;
+      })
+      .finally(() => {
+        running = undefined;
+      });
+    return running;
+  };
+
+  return (...args: A): Promise<R | undefined> => {
+    if (queued) {
+      // Already waiting — fold the newer arguments in
+      queued.args = merge(queued.args, args);
+      return queued.done;
+    }
+    if (!running) return run(args);
+
+    const entry = { args } as { args: A; done: Promise<R | undefined> };
+    entry.done = running.then(() => {
+      queued = undefined;
+      return run(entry.args);
+    });
+    queued = entry;
+    return entry.done;
+  };
+}
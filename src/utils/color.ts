@@ -0,0 +1,190 @@
+// src/utils/color.ts
+// Color math — hex parsing/formatting and conversions to and from the
+// OKLab / OKLCH perceptual spaces. Framework-free, no external deps.
+//
+// All channels are floats: sRGB and alpha in 0–1, OKLab L in 0–1,
+// OKLCH hue in degrees.
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface Oklab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+export interface Oklch {
+  L: number;
+  C: number;
+  h: number;
+}
+
+const HEX_BODY_RE = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, v));
+}
+
+/** Parses #rgb, #rgba, #rrggbb or #rrggbbaa. Returns undefined for anything else. */
+export function parseHex(hex: string): RGBA | undefined {
+  const m = HEX_BODY_RE.exec(hex.trim());
+  if (!m) return undefined;
+
+  let body = m[1];
+  if (body.length <= 4) {
+    body = body.split("").map((ch) => ch + ch).join("");
+  }
+  const byte = (i: number): number => parseInt(body.slice(i, i + 2), 16) / 255;
+
+  return {
+    r: byte(0),
+    g: byte(2),
+    b: byte(4),
+    a: body.length === 8 ? byte(6) : 1,
+  };
+}
+
+/** Formats as lowercase #rrggbb, or #rrggbbaa when not fully opaque. */
+export function toHex(c: RGBA): string {
+  const byte = (v: number): string =>
+    Math.round(clamp01(v) * 255).toString(16).padStart(2, "0");
+  const alpha = Math.round(clamp01(c.a) * 255) < 255 ? byte(c.a) : "";
+  return `#${byte(c.r)}${byte(c.g)}${byte(c.b)}${alpha}`;
+}
+
+// ── sRGB ↔ linear ────────────────────────────────────────────────────
+
+function toLinear(v: number): number {
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(v: number): number {
+  return v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+}
+
+// ── OKLab (Björn Ottosson, 2020) ─────────────────────────────────────
+
+export function rgbToOklab(c: RGBA): Oklab {
+  const r = toLinear(c.r);
+  const g = toLinear(c.g);
+  const b = toLinear(c.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return {
+    L: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+/** Converts to sRGB without clamping — channels may fall outside 0–1. */
+function oklabToLinearRgb(lab: Oklab): [number, number, number] {
+  const l = Math.pow(lab.L + 0.3963377774 * lab.a + 0.2158037573 * lab.b, 3);
+  const m = Math.pow(lab.L - 0.1055613458 * lab.a - 0.0638541728 * lab.b, 3);
+  const s = Math.pow(lab.L - 0.0894841775 * lab.a - 1.291485548 * lab.b, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+export function oklabToRgb(lab: Oklab, alpha = 1): RGBA {
+  const [r, g, b] = oklabToLinearRgb(lab);
+  return {
+    r: clamp01(fromLinear(r)),
+    g: clamp01(fromLinear(g)),
+    b: clamp01(fromLinear(b)),
+    a: alpha,
+  };
+}
+
+export function oklabToOklch(lab: Oklab): Oklch {
+  const C = Math.sqrt(lab.a * lab.a + lab.b * lab.b);
+  let h = (Math.atan2(lab.b, lab.a) * 180) / Math.PI;
+  if (h < 0) h += 360;
+  return { L: lab.L, C, h };
+}
+
+export function oklchToOklab(lch: Oklch): Oklab {
+  const rad = (lch.h * Math.PI) / 180;
+  return { L: lch.L, a: lch.C * Math.cos(rad), b: lch.C * Math.sin(rad) };
+}
+
+export function rgbToOklch(c: RGBA): Oklch {
+  return oklabToOklch(rgbToOklab(c));
+}
+
+/**
+ * Converts OKLCH to sRGB, reducing chroma (keeping lightness and hue)
+ * until the color fits inside the sRGB gamut.
+ */
+export function oklchToRgb(lch: Oklch, alpha = 1): RGBA {
+  const inGamut = (C: number): boolean =>
+    oklabToLinearRgb(oklchToOklab({ ...lch, C })).every((v) => v >= -1e-4 && v <= 1 + 1e-4);
+
+  if (inGamut(lch.C)) {
+    return oklabToRgb(oklchToOklab(lch), alpha);
+  }
+
+  let lo = 0;
+  let hi = lch.C;
+  for (let i = 0; i < 20; i++) {
+    const mid = (lo + hi) / 2;
+    if (inGamut(mid)) lo = mid; else hi = mid;
+  }
+  return oklabToRgb(oklchToOklab({ ...lch, C: lo }), alpha);
+}
+
+// ── operations ───────────────────────────────────────────────────────
+
+/** Interpolates from `a` (t = 0) to `b` (t = 1) in OKLab, alpha linearly. */
+export function mixColors(a: RGBA, b: RGBA, t: number): RGBA {
+  const la = rgbToOklab(a);
+  const lb = rgbToOklab(b);
+  return oklabToRgb(
+    {
+      L: la.L + (lb.L - la.L) * t,
+      a: la.a + (lb.a - la.a) * t,
+      b: la.b + (lb.b - la.b) * t,
+    },
+    a.a + (b.a - a.a) * t
+  );
+}
+
+/** Shifts OKLCH lightness by `delta` (-1…1), keeping hue and chroma where possible. */
+export function adjustLightness(c: RGBA, delta: number): RGBA {
+  const lch = rgbToOklch(c);
+  return oklchToRgb({ ...lch, L: clamp01(lch.L + delta) }, c.a);
+}
+
+/** Composites `fg` over an opaque `bg` using fg's alpha. Result is opaque. */
+export function composite(fg: RGBA, bg: RGBA): RGBA {
+  return {
+    r: fg.r * fg.a + bg.r * (1 - fg.a),
+    g: fg.g * fg.a + bg.g * (1 - fg.a),
+    b: fg.b * fg.a + bg.b * (1 - fg.a),
+    a: 1,
+  };
+}
+
+/** WCAG 2.x relative luminance of the opaque color. */
+export function relativeLuminance(c: RGBA): number {
+  return 0.2126 * toLinear(c.r) + 0.7152 * toLinear(c.g) + 0.0722 * toLinear(c.b);
+}
+
+/** WCAG 2.x contrast ratio between two opaque colors (1–21). */
+export function contrastRatio(a: RGBA, b: RGBA): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
@@ -0,0 +1,226 @@
+// src/utils/cssColor.ts
+// Parses the CSS color syntaxes palettes tend to contain and normalizes
+// them to canonical hex. Framework-free, no external deps.
+//
+// Accepted forms:
+//   #rgb  #rgba  #rrggbb  #rrggbbaa
+//   rgb(255 0 0)   rgb(255, 0, 0)   rgba(255, 0, 0, 0.5)   rgb(100% 0% 0% / 50%)
+//   hsl(120 50% 50%)   hsla(120deg, 50%, 50%, 0.5)
+//   oklch(62% 0.2 30)   oklch(0.62 0.2 30 / 0.8)   oklab(0.62 0.1 -0.05)
+//   CSS named colors ("rebeccapurple") and "transparent"
+//
+// Out-of-range channels are clamped, as browsers do. OKLCH colors outside
+// sRGB are brought in by reducing chroma. The result is lowercase #rrggbb,
+// or #rrggbbaa when not fully opaque.
+
+import { oklabToRgb, oklchToRgb, parseHex, toHex } from "./color";
+import type { RGBA } from "./color";
+
+export type ColorParseResult = { ok: true; color: RGBA } | { ok: false; reason: string };
+
+export type ColorNormalizeResult = { ok: true; hex: string } | { ok: false; reason: string };
+
+/** CSS Color Module Level 4 named colors */
+const NAMED_COLORS: Readonly<Record<string, string>> = {
+  aliceblue: "#f0f8ff", antiquewhite: "#faebd7", aqua: "#00ffff", aquamarine: "#7fffd4",
+  azure: "#f0ffff", beige: "#f5f5dc", bisque: "#ffe4c4", black: "#000000",
+  blanchedalmond: "#ffebcd", blue: "#0000ff", blueviolet: "#8a2be2", brown: "#a52a2a",
+  burlywood: "#deb887", cadetblue: "#5f9ea0", chartreuse: "#7fff00", chocolate: "#d2691e",
+  coral: "#ff7f50", cornflowerblue: "#6495ed", cornsilk: "#fff8dc", crimson: "#dc143c",
+  cyan: "#00ffff", darkblue: "#00008b", darkcyan: "#008b8b", darkgoldenrod: "#b8860b",
+  darkgray: "#a9a9a9", darkgreen: "#006400", darkgrey: "#a9a9a9", darkkhaki: "#bdb76b",
+  darkmagenta: "#8b008b", darkolivegreen: "#556b2f", darkorange: "#ff8c00", darkorchid: "#9932cc",
+  darkred: "#8b0000", darksalmon: "#e9967a", darkseagreen: "#8fbc8f", darkslateblue: "#483d8b",
+  darkslategray: "#2f4f4f", darkslategrey: "#2f4f4f", darkturquoise: "#00ced1",
+  darkviolet: "#9400d3", deeppink: "#ff1493", deepskyblue: "#00bfff", dimgray: "#696969",
+  dimgrey: "#696969", dodgerblue: "#1e90ff", firebrick: "#b22222", floralwhite: "#fffaf0",
+  forestgreen: "#228b22", fuchsia: "#ff00ff", gainsboro: "#dcdcdc", ghostwhite: "#f8f8ff",
+  gold: "#ffd700", goldenrod: "#daa520", gray: "#808080", green: "#008000", greenyellow: "#adff2f",
+  grey: "#808080", honeydew: "#f0fff0", hotpink: "#ff69b4", indianred: "#cd5c5c",
+  indigo: "#4b0082", ivory: "#fffff0", khaki: "#f0e68c", lavender: "#e6e6fa",
+  lavenderblush: "#fff0f5", lawngreen: "#7cfc00", lemonchiffon: "#fffacd", lightblue: "#add8e6",
+  lightcoral: "#f08080", lightcyan: "#e0ffff", lightgoldenrodyellow: "#fafad2",
+  lightgray: "#d3d3d3", lightgreen: "#90ee90", lightgrey: "#d3d3d3", lightpink: "#ffb6c1",
+  lightsalmon: "#ffa07a", lightseagreen: "#20b2aa", lightskyblue: "#87cefa",
+  lightslategray: "#778899", lightslategrey: "#778899", lightsteelblue: "#b0c4de",
+  lightyellow: "#ffffe0", lime: "#00ff00", limegreen: "#32cd32", linen: "#faf0e6",
+  magenta: "#ff00ff", maroon: "#800000", mediumaquamarine: "#66cdaa", mediumblue: "#0000cd",
+  mediumorchid: "#ba55d3", mediumpurple: "#9370db", mediumseagreen: "#3cb371",
+  mediumslateblue: "#7b68ee", mediumspringgreen: "#00fa9a", mediumturquoise: "#48d1cc",
+  mediumvioletred: "#c71585", midnightblue: "#191970", mintcream: "#f5fffa", mistyrose: "#ffe4e1",
+  moccasin: "#ffe4b5", navajowhite: "#ffdead", navy: "#000080", oldlace: "#fdf5e6",
+  olive: "#808000", olivedrab: "#6b8e23", orange: "#ffa500", orangered: "#ff4500",
+  orchid: "#da70d6", palegoldenrod: "#eee8aa", palegreen: "#98fb98", paleturquoise: "#afeeee",
+  palevioletred: "#db7093", papayawhip: "#ffefd5", peachpuff: "#ffdab9", peru: "#cd853f",
+  pink: "#ffc0cb", plum: "#dda0dd", powderblue: "#b0e0e6", purple: "#800080",
+  rebeccapurple: "#663399", red: "#ff0000", rosybrown: "#bc8f8f", royalblue: "#4169e1",
+  saddlebrown: "#8b4513", salmon: "#fa8072", sandybrown: "#f4a460", seagreen: "#2e8b57",
+  seashell: "#fff5ee", sienna: "#a0522d", silver: "#c0c0c0", skyblue: "#87ceeb",
+  slateblue: "#6a5acd", slategray: "#708090", slategrey: "#708090", snow: "#fffafa",
+  springgreen: "#00ff7f", steelblue: "#4682b4", tan: "#d2b48c", teal: "#008080",
+  thistle: "#d8bfd8", tomato: "#ff6347", turquoise: "#40e0d0", violet: "#ee82ee", wheat: "#f5deb3",
+  white: "#ffffff", whitesmoke: "#f5f5f5", yellow: "#ffff00", yellowgreen: "#9acd32",
+};
+
+const FUNCTIONS = ["rgb", "rgba", "hsl", "hsla", "oklch", "oklab"] as const;
+type ColorFunction = (typeof FUNCTIONS)[number];
+
+const FUNCTION_RE = /^([A-Za-z-]+)\(([^()]*)\)$/;
+const COMPONENT_RE = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+
+/** Thrown for any failure while parsing one value */
+class ColorSyntaxError extends Error {}
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, v));
+}
+
+interface Component {
+  value: number;
+  unit: string;
+}
+
+function component(fn: string, raw: string): Component {
+  if (raw.toLowerCase() === "none") return { value: 0, unit: "" };
+  const m = COMPONENT_RE.exec(raw);
+  if (!m) throw new ColorSyntaxError(`${fn}() component "${raw}" is not a number`);
+  return { value: parseFloat(m[1]), unit: (m[2] ?? "").toLowerCase() };
+}
+
+/** A number, or a percentage of `percentOf` */
+function numberOrPercent(fn: string, raw: string, percentOf: number, what: string): number {
+  const c = component(fn, raw);
+  if (c.unit === "%") return (c.value / 100) * percentOf;
+  if (c.unit === "") return c.value;
+  throw new ColorSyntaxError(`${fn}() ${what} "${raw}" must be a number or a percentage`);
+}
+
+/** Hue in degrees: a bare number, or deg / rad / grad / turn */
+function hue(fn: string, raw: string): number {
+  const c = component(fn, raw);
+  switch (c.unit) {
+    case "":
+    case "deg": return c.value;
+    case "rad": return (c.value * 180) / Math.PI;
+    case "grad": return c.value * 0.9;
+    case "turn": return c.value * 360;
+    default: throw new ColorSyntaxError(`${fn}() hue "${raw}" must be a number or an angle`);
+  }
+}
+
+function alpha(fn: string, raw: string | undefined): number {
+  return raw === undefined ? 1 : clamp01(numberOrPercent(fn, raw, 1, "alpha"));
+}
+
+/**
+ * Splits the arguments of a color function. Both the legacy comma form
+ * ("1, 2, 3, 0.5") and the modern space form ("1 2 3 / 0.5") are accepted.
+ */
+function splitArgs(fn: string, body: string): { channels: string[]; alpha: string | undefined } {
+  const trimmed = body.trim();
+  if (trimmed === "") throw new ColorSyntaxError(`${fn}() is empty`);
+
+  if (trimmed.includes(",")) {
+    if (trimmed.includes("/")) throw new ColorSyntaxError(`${fn}() cannot mix commas and "/"`);
+    const parts = trimmed.split(",").map((p) => p.trim());
+    if (parts.some((p) => p === "")) throw new ColorSyntaxError(`${fn}() has an empty argument`);
+    if (parts.length !== 3 && parts.length !== 4) {
+      throw new ColorSyntaxError(`${fn}() takes 3 channels and an optional alpha, got ${parts.length} value(s)`);
+    }
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+
+  const slashes = trimmed.split("/");
+  if (slashes.length > 2) throw new ColorSyntaxError(`${fn}() has more than one "/"`);
+  const channels = slashes[0].trim().split(/\s+/).filter((p) => p !== "");
+  if (channels.length !== 3) {
+    throw new ColorSyntaxError(`${fn}() takes 3 channels, got ${channels.length}`);
+  }
+  const a = slashes.length === 2 ? slashes[1].trim() : undefined;
+  if (a === "") throw new ColorSyntaxError(`${fn}() has nothing after "/"`);
+  return { channels, alpha: a };
+}
+
+function hslToRgb(h: number, s: number, l: number, a: number): RGBA {
+  h = ((h % 360) + 360) % 360;
+  const k = (n: number): number => (n + h / 30) % 12;
+  const f = (n: number): number => l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return { r: f(0), g: f(8), b: f(4), a };
+}
+
+function parseFunction(fn: ColorFunction, body: string): RGBA {
+  const args = splitArgs(fn, body);
+  const [c1, c2, c3] = args.channels;
+  const a = alpha(fn, args.alpha);
+
+  switch (fn) {
+    case "rgb":
+    case "rgba": {
+      const ch = (raw: string): number => clamp01(numberOrPercent(fn, raw, 255, "channel") / 255);
+      return { r: ch(c1), g: ch(c2), b: ch(c3), a };
+    }
+    case "hsl":
+    case "hsla": {
+      // Percent signs are optional in the modern syntax
+      const pct = (raw: string, what: string): number => clamp01(numberOrPercent(fn, raw, 100, what) / 100);
+      return hslToRgb(hue(fn, c1), pct(c2, "saturation"), pct(c3, "lightness"), a);
+    }
+    case "oklch": {
+      const L = clamp01(numberOrPercent(fn, c1, 1, "lightness"));
+      const C = Math.max(0, numberOrPercent(fn, c2, 0.4, "chroma"));
+      return oklchToRgb({ L, C, h: hue(fn, c3) }, a);
+    }
+    case "oklab": {
+      const L = clamp01(numberOrPercent(fn, c1, 1, "lightness"));
+      return oklabToRgb({ L, a: numberOrPercent(fn, c2, 0.4, "a"), b: numberOrPercent(fn, c3, 0.4, "b") }, a);
+    }
+  }
+}
+
+function parse(value: string): RGBA {
+  const v = value.trim();
+  if (v === "") throw new ColorSyntaxError("empty color value");
+
+  if (v.startsWith("#")) {
+    const c = parseHex(v);
+    if (!c) throw new ColorSyntaxError(`"${v}" is not a valid hex color — use 3, 4, 6 or 8 hex digits`);
+    return c;
+  }
+
+  const m = FUNCTION_RE.exec(v);
+  if (m) {
+    const fn = m[1].toLowerCase();
+    if (!(FUNCTIONS as readonly string[]).includes(fn)) {
+      throw new ColorSyntaxError(`unsupported color function "${fn}()" — use rgb(), hsl(), oklch() or oklab()`);
+    }
+    return parseFunction(fn as ColorFunction, m[2]);
+  }
+
+  const name = v.toLowerCase();
+  if (name === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, name)) return parseHex(NAMED_COLORS[name])!;
+  if (/^[a-z]+$/.test(name)) throw new ColorSyntaxError(`unknown color name "${v}"`);
+
+  throw new ColorSyntaxError(`"${v}" is not a color`);
+}
+
+/** Parses any supported syntax. Never throws — failures carry a reason. */
+export function parseCssColor(value: string): ColorParseResult {
+  try {
+    return { ok: true, color: parse(value) };
+  } catch (e) {
+    if (!(e instanceof ColorSyntaxError)) throw e;
+    return { ok: false, reason: e.message };
+  }
+}
+
+/** Parses any supported syntax and formats it as canonical hex */
+export function normalizeColor(value: string): ColorNormalizeResult {
+  const result = parseCssColor(value);
+  return result.ok ? { ok: true, hex: toHex(result.color) } : result;
+}
+
+/** True when `name` is a CSS color function this module understands */
+export function isColorFunction(name: string): boolean {
+  return (FUNCTIONS as readonly string[]).includes(name.toLowerCase());
+}
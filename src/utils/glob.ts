@@ -0,0 +1,29 @@
+// src/utils/glob.ts
+// Minimal glob matching for color token IDs — framework-free, no external deps.
+//
+//   *  any run of characters — token IDs are flat, so it spans dots too
+//   ?  exactly one character
+//
+// Matching is case-sensitive, like VS Code's own token IDs.
+
+/** Compiles `glob` into an anchored regular expression */
+export function globToRegExp(glob: string): RegExp {
+  const body = glob
+    .split("")
+    .map((ch) => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${body}$`);
+}
+
+/**
+ * Returns a predicate testing a string against any of `globs`.
+ * Compiles once — use it when testing many strings.
+ */
+export function globMatcher(globs: string[]): (value: string) => boolean {
+  const patterns = globs.filter((g) => g.trim() !== "").map((g) => globToRegExp(g.trim()));
+  return (value) => patterns.some((re) => re.test(value));
+}
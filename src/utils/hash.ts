@@ -0,0 +1,24 @@
+// src/utils/hash.ts
+// Stable content hashing for plain JSON data — key order never matters.
+
+import * as crypto from "crypto";
+
+/** JSON.stringify with object keys sorted at every level */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** Short hex digest of `value`'s stable JSON form */
+export function contentHash(value: unknown): string {
+  return crypto.createHash("sha256").update(stableStringify(value)).digest("hex").slice(0, 16);
+}
@@ -1,52 +1,120 @@
 // src/watcher/paletteWatcher.ts
-// Watches the palette file for changes using VS Code's FileSystemWatcher.
+// Watches the palette file for changes using VS Code's FileSystemWatcher,
+// backed by polling where events cannot be trusted.
 //
 // Why FileSystemWatcher over fs.watch?
 //  - Integrated into VS Code's lifecycle (automatically disposed)
 //  - Works correctly on all platforms including WSL and remote workspaces
 //  - Fires for create/change/delete events separately
-//  - No polling — purely event-driven
+//
+// Events alone miss a few real-world setups, so every trigger — a file
+// event, a poll tick, a directory appearing — only schedules a check.
+// The check (debounced) looks at the file itself:
+//  - symlinks are resolved to their real path, and the target is watched
+//    too; a retargeted link re-wires the watchers
+//  - the content hash decides whether anything changed, so duplicate
+//    triggers and touch-only writes fire nothing
+//  - a delete is only reported if the file is still gone once the writes
+//    settle — write-to-temp-and-rename shows up as delete + create and is
+//    reported as a single change
+//  - a missing parent directory is waited for by polling, then watched
+//
+// matugenBridge.watchMode picks the trigger sources:
+//  - "auto":   events, plus a stat poll that catches changes whose events
+//              never arrived (exhausted inotify watches, network mounts)
+//  - "events": events only
+//  - "poll":   polling only, every matugenBridge.pollIntervalMs
 //
 // The watcher is re-created whenever the palette path config changes,
 // so users can switch paths live without restarting.
 
 import * as vscode from "vscode";
+import * as fs from "fs";
 import * as path from "path";
 import { debounce } from "../utils/debounce";
+import { contentHash } from "../utils/hash";
 import { logger } from "../utils/logger";
 
 type OnChangeCallback = () => void;
 
+export type WatchMode = "auto" | "events" | "poll";
+
+/** What the last check saw */
+interface FileState {
+  /** Real path after resolving symlinks; the watched path when unresolvable */
+  realPath: string;
+  /** Content hash; undefined when the file is missing or unreadable */
+  hash: string | undefined;
+  /** Cheap stat signature compared on every poll tick */
+  signature: string;
+}
+
+const MISSING = "missing";
+
+function statSignature(filePath: string): string {
+  try {
+    const st = fs.statSync(filePath);
+    return `${st.mtimeMs}:${st.size}`;
+  } catch {
+    return MISSING;
+  }
+}
+
+function resolveReal(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return filePath;
+  }
+}
+
+function readState(filePath: string): FileState {
+  const realPath = resolveReal(filePath);
+  const signature = statSignature(realPath);
+  let hash: string | undefined;
+  if (signature !== MISSING) {
+    try {
+      hash = contentHash(fs.readFileSync(realPath, "utf8"));
+    } catch {
+      hash = undefined;
+    }
+  }
+  return { realPath, hash, signature: `${realPath}|${signature}` };
+}
+
 export class PaletteWatcher implements vscode.Disposable {
-  private fsWatcher: vscode.FileSystemWatcher | undefined;
   private disposables: vscode.Disposable[] = [];
-  private debouncedCallback: OnChangeCallback;
+  private debouncedCheck: () => void = () => undefined;
+  /** False once stopped — a check still pending in the debounce is dropped */
+  private active = false;
   private currentPath: string = "";
+  private mode: WatchMode = "auto";
+  private pollTimer: ReturnType<typeof setInterval> | undefined;
+  private state: FileState | undefined;
+  /** Paths the FileSystemWatchers currently cover */
+  private watchedFiles: string[] = [];
+  /** A file event arrived since the last check */
+  private eventSeen = false;
+  /** "Events are not arriving" is logged once per start() */
+  private missedEventsLogged = false;
 
-  constructor(private readonly onChange: OnChangeCallback) {
-    // The debounced wrapper is built once; its delay is re-read from
-    // config on every invocation (config can change without restart)
-    this.debouncedCallback = debounce(() => {
-      const delayMs = vscode.workspace
-        .getConfiguration("matugenBridge")
-        .get<number>("debounceMs", 300);
-      logger.debug(`Palette change detected — callback executing (debounced at ${delayMs}ms)`);
-      this.onChange();
-    }, 0); // outer debounce is 0; real delay is applied inside onChange scheduling
-
-    // We rebuild it properly below so debounce delay is respected at construction
-    this.debouncedCallback = this.buildDebounced();
-  }
+  /**
+   * @param onDelete  Called when the file is gone for good. Optional
+   *                  overlay layers re-apply here, so their colors
+   *                  disappear with the file; without it, deletes are
+   *                  only logged.
+   */
+  constructor(
+    private readonly onChange: OnChangeCallback,
+    private readonly onDelete?: OnChangeCallback
+  ) {}
 
-  private buildDebounced(): OnChangeCallback {
+  private buildDebounced(): () => void {
     const delayMs = vscode.workspace
       .getConfiguration("matugenBridge")
       .get<number>("debounceMs", 300);
 
-    return debounce(() => {
-      logger.debug("Palette file change — firing callback.");
-      this.onChange();
-    }, delayMs);
+    return debounce(() => this.check(), delayMs);
   }
 
   /**
@@ -56,47 +124,147 @@ export class PaletteWatcher implements vscode.Disposable {
   start(palettePath: string): void {
     this.stop();
 
+    const config = vscode.workspace.getConfiguration("matugenBridge");
     this.currentPath = palettePath;
-    this.debouncedCallback = this.buildDebounced();
-
-    // VS Code's FileSystemWatcher accepts a glob pattern.
-    // We construct it from the absolute path.
-    const dir = path.dirname(palettePath);
-    const file = path.basename(palettePath);
-
-    // Glob: watch the exact file inside its directory
-    const pattern = new vscode.RelativePattern(
-      vscode.Uri.file(dir),
-      file
-    );
-
-    this.fsWatcher = vscode.workspace.createFileSystemWatcher(
-      pattern,
-      /* ignoreCreateEvents = */ false,
-      /* ignoreChangeEvents = */ false,
-      /* ignoreDeleteEvents = */ false
-    );
-
-    // All three events trigger a re-apply
-    this.fsWatcher.onDidCreate(this.handleEvent, this, this.disposables);
-    this.fsWatcher.onDidChange(this.handleEvent, this, this.disposables);
-    this.fsWatcher.onDidDelete(this.handleDelete, this, this.disposables);
-    this.disposables.push(this.fsWatcher);
-
-    logger.info(`Watching palette file: ${palettePath}`);
+    this.mode = config.get<WatchMode>("watchMode", "auto");
+    this.debouncedCheck = this.buildDebounced();
+    this.state = readState(palettePath);
+    this.eventSeen = false;
+    this.missedEventsLogged = false;
+    this.active = true;
+
+    if (this.mode !== "poll") this.watchEvents();
+
+    // Polling runs in "auto" and "poll" mode, and in "events" mode until
+    // the missing directory exists
+    if (this.mode !== "events" || this.watchedFiles.length === 0) {
+      const intervalMs = config.get<number>("pollIntervalMs", 2000);
+      this.pollTimer = setInterval(() => this.poll(), intervalMs);
+    }
+
+    const real = this.state.realPath !== palettePath ? ` (→ ${this.state.realPath})` : "";
+    logger.info(`Watching palette file: ${palettePath}${real} [${this.mode}]`);
+  }
+
+  /**
+   * Creates one FileSystemWatcher per path to cover: the file and its
+   * symlink target. Paths whose directory is missing are left out.
+   */
+  private watchEvents(announceMissing = true): void {
+    for (const d of this.disposables) d.dispose();
+    this.disposables = [];
+    this.watchedFiles = [];
+
+    const targets = [this.currentPath];
+    if (this.state && this.state.realPath !== this.currentPath) targets.push(this.state.realPath);
+
+    for (const file of targets) {
+      const dir = path.dirname(file);
+      if (!fs.existsSync(dir)) {
+        if (announceMissing) logger.info(`Palette directory ${dir} does not exist yet — waiting for it.`);
+        continue;
+      }
+
+      // Glob: watch the exact file inside its directory
+      const pattern = new vscode.RelativePattern(vscode.Uri.file(dir), path.basename(file));
+      const fsWatcher = vscode.workspace.createFileSystemWatcher(
+        pattern,
+        /* ignoreCreateEvents = */ false,
+        /* ignoreChangeEvents = */ false,
+        /* ignoreDeleteEvents = */ false
+      );
+
+      // Every event just schedules a check of the file
+      fsWatcher.onDidCreate(this.handleEvent, this, this.disposables);
+      fsWatcher.onDidChange(this.handleEvent, this, this.disposables);
+      fsWatcher.onDidDelete(this.handleEvent, this, this.disposables);
+      this.disposables.push(fsWatcher);
+      this.watchedFiles.push(file);
+    }
   }
 
-  private handleEvent = (_uri: vscode.Uri): void => {
-    logger.debug(`FileSystemWatcher: change/create event`);
-    this.debouncedCallback();
+  private handleEvent = (uri: vscode.Uri): void => {
+    logger.debug(`FileSystemWatcher: event for ${uri.fsPath}`);
+    this.eventSeen = true;
+    this.debouncedCheck();
   };
 
-  private handleDelete = (_uri: vscode.Uri): void => {
+  private poll(): void {
+    // A directory that appeared since start() can be watched now
+    if (this.mode !== "poll" && this.watchedFiles.length < this.expectedWatchCount()) {
+      const before = this.watchedFiles.length;
+      this.watchEvents(false);
+      if (this.watchedFiles.length > before) {
+        logger.info(`Palette directory appeared — watching ${this.currentPath}.`);
+        this.debouncedCheck();
+      }
+      if (this.mode === "events" && this.watchedFiles.length === this.expectedWatchCount()) {
+        this.stopPolling();
+      }
+    }
+
+    const realPath = resolveReal(this.currentPath);
+    if (`${realPath}|${statSignature(realPath)}` !== this.state?.signature) {
+      this.debouncedCheck();
+    }
+  }
+
+  private expectedWatchCount(): number {
+    return this.state && this.state.realPath !== this.currentPath ? 2 : 1;
+  }
+
+  /** Compares the file with the last check and reports what changed */
+  private check(): void {
+    if (!this.active) return;
+    const previous = this.state;
+    const next = readState(this.currentPath);
+    this.state = next;
+
+    const viaEvent = this.eventSeen;
+    this.eventSeen = false;
+
+    if (previous && next.realPath !== previous.realPath) {
+      if (next.hash !== undefined) logger.info(`Palette symlink now points to ${next.realPath}.`);
+      if (this.mode !== "poll") this.watchEvents();
+    }
+
+    if (next.hash === undefined) {
+      if (previous?.hash === undefined) return;
+      this.handleDelete();
+      return;
+    }
+    if (next.hash === previous?.hash) {
+      logger.debug("Palette file touched but unchanged — nothing to do.");
+      return;
+    }
+
+    if (!viaEvent && this.mode === "auto" && !this.missedEventsLogged && this.watchedFiles.length > 0) {
+      this.missedEventsLogged = true;
+      logger.info(
+        `Polling noticed a change to ${this.currentPath} that no file event reported — ` +
+        "events may not be arriving here (inotify limit or network filesystem). Polling keeps it in sync."
+      );
+    }
+    logger.debug("Palette file change — firing callback.");
+    this.onChange();
+  }
+
+  private handleDelete(): void {
+    if (this.onDelete) {
+      logger.info(`Palette file deleted: ${this.currentPath}`);
+      this.onDelete();
+      return;
+    }
     logger.info("Palette file deleted — colors will remain until a new file appears.");
-    // Intentionally do NOT clear colors on delete.
-    // The colors already applied stay visible. If/when the file
-    // reappears, the create event will re-apply fresh colors.
-  };
+    // If/when the file reappears, the next check re-applies fresh colors.
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer !== undefined) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
 
   /** Tear down current watcher without losing the path. */
   stop(): void {
@@ -104,7 +272,10 @@ export class PaletteWatcher implements vscode.Disposable {
       d.dispose();
     }
     this.disposables = [];
-    this.fsWatcher = undefined;
+    this.watchedFiles = [];
+    this.stopPolling();
+    this.active = false;
+    this.debouncedCheck = () => undefined;
   }
 
   get watchedPath(): string {